@@ -0,0 +1,159 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { Metaplex } from "@metaplex-foundation/js";
+import {
+  PROGRAM_ID as CANDY_GUARD_PROGRAM_ID,
+  mintInstructionDiscriminator,
+  routeInstructionDiscriminator,
+} from "@metaplex-foundation/mpl-candy-guard";
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { candyMachineId, rpcHost } from "../../src/config";
+import {
+  ThirdPartySignerRequest,
+  ThirdPartySignerResponse,
+} from "../../src/helpers/thirdPartySigner";
+import { thirdPartySignerRules } from "../../src/helpers/thirdPartySignerRules";
+
+const loadSigner = () => {
+  const secretKey = process.env.THIRD_PARTY_SIGNER_SECRET_KEY;
+  if (!secretKey) return null;
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secretKey)));
+};
+
+// Anchor discriminator of the candy guard `mint_v2` instruction, newer than
+// the mpl-candy-guard package this route imports the others from.
+const mintV2InstructionDiscriminator = [120, 121, 23, 146, 173, 110, 199, 205];
+
+let candyGuardAddress: Promise<PublicKey> | null = null;
+
+// The candy guard wrapping the configured candy machine, looked up once.
+const loadCandyGuard = () => {
+  if (!candyGuardAddress)
+    candyGuardAddress = Metaplex.make(new Connection(rpcHost, "confirmed"))
+      .candyMachines()
+      .findByAddress({ address: candyMachineId })
+      .then(({ candyGuard }) => {
+        if (!candyGuard) throw new Error("Candy machine has no candy guard.");
+        return candyGuard.address;
+      })
+      .catch((e) => {
+        candyGuardAddress = null;
+        throw e;
+      });
+  return candyGuardAddress;
+};
+
+const hasDiscriminator = (
+  ix: TransactionInstruction,
+  discriminator: number[]
+) => discriminator.every((byte, i) => ix.data[i] === byte);
+
+// A candy guard mint (v1 or v2) or route instruction for the configured
+// candy machine and candy guard.
+const isCandyGuardMint = (
+  ix: TransactionInstruction,
+  candyGuard: PublicKey
+) => {
+  if (!ix.programId.equals(CANDY_GUARD_PROGRAM_ID)) return false;
+  const isRoute = hasDiscriminator(ix, routeInstructionDiscriminator);
+  if (
+    !isRoute &&
+    !hasDiscriminator(ix, mintInstructionDiscriminator) &&
+    !hasDiscriminator(ix, mintV2InstructionDiscriminator)
+  )
+    return false;
+  const machine = ix.keys[isRoute ? 1 : 2]?.pubkey;
+  return (
+    !!ix.keys[0]?.pubkey.equals(candyGuard) && !!machine?.equals(candyMachineId)
+  );
+};
+
+/**
+ * Throws unless the transaction is a single candy guard mint: compute budget
+ * instructions are allowed, the signer may not appear in any other
+ * instruction so its signature can't authorize anything but the mint.
+ */
+const assertMintTransaction = (
+  tx: Transaction,
+  signerKey: PublicKey,
+  candyGuard: PublicKey
+) => {
+  let mints = 0;
+  tx.instructions.forEach((ix) => {
+    if (ix.programId.equals(ComputeBudgetProgram.programId)) return;
+    if (isCandyGuardMint(ix, candyGuard)) {
+      mints += 1;
+      return;
+    }
+    if (ix.programId.equals(CANDY_GUARD_PROGRAM_ID))
+      throw new Error("Only candy guard mint instructions can be signed.");
+    if (ix.keys.some(({ pubkey }) => pubkey.equals(signerKey)))
+      throw new Error("Signer can only be used by the mint instruction.");
+  });
+  if (mints !== 1)
+    throw new Error("Transaction must hold exactly one candy guard mint.");
+};
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse<ThirdPartySignerResponse>
+) => {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed." });
+  }
+
+  const signer = loadSigner();
+  if (!signer)
+    return res
+      .status(500)
+      .json({ error: "Third party signer not configured." });
+
+  const request = req.body as ThirdPartySignerRequest;
+  let wallet: PublicKey;
+  try {
+    wallet = new PublicKey(request?.wallet);
+  } catch (e) {
+    return res.status(400).json({ error: "Invalid wallet address." });
+  }
+  if (!Array.isArray(request.transactions) || !request.transactions.length)
+    return res.status(400).json({ error: "No transactions to sign." });
+
+  for (const rule of thirdPartySignerRules) {
+    const error = await rule(request);
+    if (error) return res.status(403).json({ error });
+  }
+
+  try {
+    const candyGuard = await loadCandyGuard();
+    const transactions = request.transactions.map((encoded) => {
+      const tx = Transaction.from(Buffer.from(encoded, "base64"));
+      if (!tx.feePayer?.equals(wallet))
+        throw new Error("Transaction fee payer does not match wallet.");
+
+      // Batches can hold transactions that do not need this signer (e.g.
+      // the allowList route), those are passed back untouched.
+      const needsSignature = tx.signatures.some(({ publicKey }) =>
+        publicKey.equals(signer.publicKey)
+      );
+      if (!needsSignature) return encoded;
+      assertMintTransaction(tx, signer.publicKey, candyGuard);
+
+      tx.partialSign(signer);
+      return tx
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString("base64");
+    });
+    return res.status(200).json({ transactions });
+  } catch (e) {
+    return res.status(400).json({ error: e.message });
+  }
+};
+
+export default handler;
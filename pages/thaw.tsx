@@ -0,0 +1,16 @@
+import React, { Suspense } from "react";
+import dynamic from "next/dynamic";
+const DynamicMain = dynamic(() => import('../src/main'), {
+  suspense: true,
+  ssr: false
+})
+
+const ThawPage = ({}) => {
+  return (
+    <Suspense fallback={`Loading...`}>
+      <DynamicMain page="thaw" />
+    </Suspense>
+  );
+};
+
+export default ThawPage;
@@ -0,0 +1,36 @@
+import { LinearProgress } from "@material-ui/core";
+import styled from "styled-components";
+import { AllocationLogics } from "./hooks/types";
+import { useI18n } from "./i18n";
+
+const Wrapper = styled.div`
+  margin: 8px auto;
+  max-width: 420px;
+
+  p {
+    margin: 4px 0;
+  }
+`;
+
+/** Supply of a phase capped by the allocation guard. */
+export const AllocationProgress = ({
+  allocation,
+}: {
+  allocation: AllocationLogics;
+}) => {
+  const { t } = useI18n();
+  return (
+    <Wrapper>
+      <LinearProgress
+        variant="determinate"
+        value={Math.min((allocation.minted / allocation.limit) * 100, 100) || 0}
+      />
+      <p>
+        {t("allocation.minted", {
+          minted: Math.min(allocation.minted, allocation.limit),
+          limit: allocation.limit,
+        })}
+      </p>
+    </Wrapper>
+  );
+};
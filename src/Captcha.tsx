@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import styled from "styled-components";
+import { captchaSiteKey } from "./config";
+import { decodedError } from "./hooks/errors";
+
+type HCaptcha = {
+  render: (
+    container: HTMLElement,
+    params: {
+      sitekey: string;
+      callback: (token: string) => void;
+      "expired-callback": () => void;
+      "error-callback": () => void;
+    }
+  ) => string;
+  remove: (widgetId: string) => void;
+};
+
+declare global {
+  interface Window {
+    hcaptcha?: HCaptcha;
+    onCaptchaLoad?: () => void;
+  }
+}
+
+const Container = styled.div`
+  display: flex;
+  justify-content: center;
+  margin: 10px auto;
+`;
+
+// How long a signer request waits for the next captcha to be solved
+const captchaTimeout = 2 * 60_000;
+
+let captchaScript: Promise<HCaptcha> | null = null;
+
+// Loads the hCaptcha script once, for every widget on the page.
+const loadCaptcha = () => {
+  if (!captchaScript)
+    captchaScript = new Promise((resolve, reject) => {
+      if (window.hcaptcha) return resolve(window.hcaptcha);
+      window.onCaptchaLoad = () => resolve(window.hcaptcha!);
+      const script = document.createElement("script");
+      script.src =
+        "https://js.hcaptcha.com/1/api.js?render=explicit&onload=onCaptchaLoad";
+      script.async = true;
+      script.onerror = () => {
+        captchaScript = null;
+        reject(new Error("Could not load the captcha."));
+      };
+      document.head.appendChild(script);
+    });
+  return captchaScript;
+};
+
+/**
+ * Captcha the third party signer API route verifies before co-signing,
+ * `onToken` gets the solved token, or undefined once it expires. Tokens are
+ * single use, see `useCaptchaTokens`.
+ */
+export const Captcha = ({ onToken }: { onToken: (token?: string) => void }) => {
+  const container = useRef<HTMLDivElement>(null);
+  const onTokenRef = useRef(onToken);
+  onTokenRef.current = onToken;
+
+  useEffect(() => {
+    if (!captchaSiteKey) return;
+    let widgetId: string | undefined;
+    let mounted = true;
+    loadCaptcha()
+      .then((hcaptcha) => {
+        if (!mounted || !container.current) return;
+        widgetId = hcaptcha.render(container.current, {
+          sitekey: captchaSiteKey,
+          callback: (token) => onTokenRef.current(token),
+          "expired-callback": () => onTokenRef.current(undefined),
+          "error-callback": () => onTokenRef.current(undefined),
+        });
+      })
+      .catch((e) => console.error(e));
+    return () => {
+      mounted = false;
+      onTokenRef.current(undefined);
+      if (widgetId !== undefined) window.hcaptcha?.remove(widgetId);
+    };
+  }, []);
+
+  return <Container ref={container} />;
+};
+
+/**
+ * Hands each solved captcha token to a single third party signer request.
+ * A spent token remounts the widget (new `key`) and the next request, such
+ * as the next mint of a pass loop or a re-signed expired mint, waits for the
+ * captcha to be solved again.
+ */
+export const useCaptchaTokens = () => {
+  const [key, setKey] = useState(0);
+  // Waiting for the next solve when `resolve` is set
+  const [waiting, setWaiting] = useState(false);
+  const pending = useRef<{ token?: string; resolve?: (token: string) => void }>(
+    {}
+  );
+
+  const spend = useCallback(() => {
+    pending.current = {};
+    setWaiting(false);
+    setKey((x) => x + 1);
+  }, []);
+
+  const onToken = useCallback(
+    (next?: string) => {
+      const { resolve } = pending.current;
+      if (next && resolve) {
+        spend();
+        return resolve(next);
+      }
+      pending.current = { ...pending.current, token: next };
+    },
+    [spend]
+  );
+
+  const getToken = useCallback(
+    () =>
+      new Promise<string>((resolve, reject) => {
+        const { token } = pending.current;
+        if (token) {
+          spend();
+          return resolve(token);
+        }
+        const timer = setTimeout(() => {
+          pending.current = { ...pending.current, resolve: undefined };
+          setWaiting(false);
+          reject(
+            decodedError("Captcha was not solved in time.", {
+              source: "unknown",
+              messageKey: "errors.captchaTimeout",
+              retryable: true,
+            })
+          );
+        }, captchaTimeout);
+        pending.current = {
+          resolve: (next) => {
+            clearTimeout(timer);
+            resolve(next);
+          },
+        };
+        setWaiting(true);
+      }),
+    [spend]
+  );
+
+  return { key, waiting, onToken, getToken };
+};
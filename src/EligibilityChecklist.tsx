@@ -0,0 +1,48 @@
+import styled from "styled-components";
+import { eligibilityText, resolutionText } from "./hooks/eligibility";
+import { GuardEligibility } from "./hooks/types";
+import { useI18n } from "./i18n";
+
+const List = styled.ul`
+  list-style: none;
+  margin: 10px auto;
+  padding: 0;
+  max-width: 420px;
+  text-align: left;
+
+  li {
+    margin: 4px 0;
+  }
+`;
+
+const statusIcons: { [k in GuardEligibility["status"]]: string } = {
+  pass: "✔",
+  fail: "✘",
+  unknown: "?",
+};
+
+/** One line per guard of the group, with what to do about failing ones. */
+export const EligibilityChecklist = ({
+  eligibility,
+}: {
+  eligibility: GuardEligibility[];
+}) => {
+  const { t } = useI18n();
+  return eligibility.length ? (
+    <List>
+      {eligibility.map((result, i) => (
+        <li key={i}>
+          {statusIcons[result.status]} <b>{result.guard}</b>
+          {result.status !== "pass" && (
+            <>
+              : {eligibilityText(result, t)}
+              {result.status === "fail" && result.resolution && (
+                <small> {resolutionText(result.resolution, t)}</small>
+              )}
+            </>
+          )}
+        </li>
+      ))}
+    </List>
+  ) : null;
+};
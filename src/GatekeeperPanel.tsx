@@ -0,0 +1,64 @@
+import Button from "@material-ui/core/Button";
+import { PublicKey } from "@solana/web3.js";
+import styled from "styled-components";
+import useGatekeeperPass, {
+  GatekeeperPassState,
+} from "./hooks/useGatekeeperPass";
+import { useI18n } from "./i18n";
+
+const Panel = styled.div`
+  margin: 10px auto;
+  max-width: 420px;
+
+  p {
+    margin: 4px 0;
+  }
+`;
+
+// States a new pass can be asked for from
+const requestable: GatekeeperPassState[] = [
+  "not-requested",
+  "expired",
+  "rejected",
+  "error",
+];
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+/** Pass state of the group's gatekeeper network, inside its GatewayProvider. */
+export const GatekeeperPanel = ({
+  gatekeeperNetwork,
+  expireOnUse,
+}: {
+  gatekeeperNetwork: PublicKey;
+  expireOnUse?: boolean;
+}) => {
+  const { t, formatDate } = useI18n();
+  const { state, expiryTime, requestPass } = useGatekeeperPass();
+  return (
+    <Panel>
+      <p>
+        {t("gatekeeper.pass", {
+          network: shortAddress(gatekeeperNetwork.toString()),
+        })}{" "}
+        <b>{t(`gatekeeper.state.${state}`)}</b>
+        {state === "active" && expiryTime && (
+          <> {t("gatekeeper.until", { date: formatDate(expiryTime) })}</>
+        )}
+      </p>
+      {expireOnUse && (
+        <p>
+          <small>{t("gatekeeper.expireOnUse")}</small>
+        </p>
+      )}
+      {requestable.includes(state) && (
+        <Button variant="outlined" size="small" onClick={() => requestPass()}>
+          {state === "not-requested"
+            ? t("gatekeeper.getPass")
+            : t("gatekeeper.requestNewPass")}
+        </Button>
+      )}
+    </Panel>
+  );
+};
@@ -0,0 +1,140 @@
+import { ReactNode } from "react";
+import { Paper } from "@material-ui/core";
+import Link from "next/link";
+import styled from "styled-components";
+import { AllocationProgress } from "./AllocationProgress";
+import { eligibilityText, failedChecks } from "./hooks/eligibility";
+import {
+  GuardGroup,
+  GuardGroupStates,
+  ParsedPricesForUI,
+  PaymentRequired,
+} from "./hooks/types";
+import { I18n, useI18n } from "./i18n";
+
+const GroupCard = styled(Paper)<{ selected?: boolean }>`
+  background-color: var(--countdown-background-color) !important;
+  margin: 10px auto;
+  padding: 16px 24px;
+  max-width: 600px;
+  text-align: center;
+  outline: ${(p) =>
+    p.selected ? "2px solid var(--title-text-color)" : "none"};
+  h2 {
+    margin: 0 0 8px;
+    text-transform: uppercase;
+  }
+  p {
+    margin: 4px 0;
+  }
+`;
+
+const priceText = (payments: PaymentRequired[], { t, formatAmount }: I18n) =>
+  payments
+    .map(({ price, label, escrow }) =>
+      escrow
+        ? t("groups.heldInEscrow", { price: formatAmount(price, label) })
+        : formatAmount(price, label)
+    )
+    .join(" + ");
+
+const groupEligibilityText = (
+  states: GuardGroupStates | undefined,
+  { t }: I18n
+) => {
+  if (!states) return t("groups.loading");
+  if (states.isEnded) return t("groups.ended");
+  if (!states.isStarted) return t("groups.notStarted");
+  if (!states.isWalletWhitelisted) return t("groups.notAllowed");
+  const [failed] = failedChecks(states);
+  return failed ? eligibilityText(failed, t) : t("groups.eligible");
+};
+
+export const GuardGroupList = ({
+  labels,
+  guards,
+  guardStates,
+  prices,
+  selected,
+  onSelect,
+  renderMintButton,
+}: {
+  labels: string[];
+  guards: { [k: string]: GuardGroup };
+  guardStates: { [k: string]: GuardGroupStates };
+  prices: { [k: string]: ParsedPricesForUI };
+  selected: string;
+  onSelect: (label: string) => void;
+  renderMintButton: (label: string) => ReactNode;
+}) => {
+  const i18n = useI18n();
+  const { t, formatDate } = i18n;
+  return (
+    <div>
+      {labels.map((label) => (
+        <GroupCard
+          key={label}
+          elevation={1}
+          selected={label === selected}
+          onClick={() => onSelect(label)}
+        >
+          <h2>{label}</h2>
+          {!!prices[label]?.payment.length && (
+            <p>
+              {t("groups.price", {
+                price: priceText(prices[label].payment, i18n),
+              })}
+            </p>
+          )}
+          {!!prices[label]?.burn.length && (
+            <p>
+              {t("groups.burn", { price: priceText(prices[label].burn, i18n) })}
+            </p>
+          )}
+          {!!prices[label]?.gate.length && (
+            <p>
+              {t("groups.hold", { price: priceText(prices[label].gate, i18n) })}
+            </p>
+          )}
+          {!!prices[label]?.botTax && (
+            <p>
+              {t("groups.botTax", {
+                price: priceText([prices[label].botTax], i18n),
+              })}
+            </p>
+          )}
+          {guards[label]?.freeze && (
+            <p>
+              {t("groups.frozen")}
+              {guards[label].freeze.escrow?.thawDate &&
+                ` ${t("groups.frozenFrom", {
+                  date: formatDate(guards[label].freeze.escrow.thawDate),
+                })}`}
+              . <Link href="/thaw">{t("groups.thawPage")}</Link>
+            </p>
+          )}
+          {guards[label]?.startTime && (
+            <p>
+              {t("groups.starts", {
+                date: formatDate(guards[label].startTime),
+              })}
+            </p>
+          )}
+          {guards[label]?.endTime && (
+            <p>
+              {t("groups.ends", { date: formatDate(guards[label].endTime) })}
+            </p>
+          )}
+          {guards[label]?.allocation && (
+            <AllocationProgress allocation={guards[label].allocation} />
+          )}
+          <p>{groupEligibilityText(guardStates[label], i18n)}</p>
+          {/* Mint controls must not switch the selected group mid-click */}
+          <div onClick={(e) => e.stopPropagation()}>
+            {renderMintButton(label)}
+          </div>
+        </GroupCard>
+      ))}
+    </div>
+  );
+};
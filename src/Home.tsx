@@ -10,7 +10,7 @@ import Link from "next/link";
 import Countdown from "react-countdown";
 import styled from "styled-components";
 import { GatewayProvider } from "@civic/solana-gateway-react";
-import { defaultGuardGroup, network } from "./config";
+import { captchaSiteKey, defaultGuardGroup, network } from "./config";
 import { MultiMintButton } from "./MultiMintButton";
 import {
   Heading,
@@ -23,15 +23,25 @@ import {
 } from "./styles";
 import { AlertState } from "./utils";
 import NftsModal from "./NftsModal";
+import NftPickerModal, { nftActionsRequired } from "./NftPickerModal";
+import { GuardGroupList } from "./GuardGroupList";
+import { GatekeeperPanel } from "./GatekeeperPanel";
+import { AllocationProgress } from "./AllocationProgress";
+import { Captcha, useCaptchaTokens } from "./Captcha";
 import { WalletAdapterNetwork } from "@solana/wallet-adapter-base";
-import useCandyMachineV3 from "./hooks/useCandyMachineV3";
+import useCandyMachine from "./hooks/useCandyMachine";
 import {
   CustomCandyGuardMintSettings,
+  GuardGroupStates,
   NftPaymentMintSettings,
   ParsedPricesForUI,
 } from "./hooks/types";
 import { guardToLimitUtil } from "./hooks/utils";
+import { decodeMintError, mintErrorText } from "./hooks/errors";
+import { priorityFeeLamports } from "./hooks/priorityFees";
 import Image from "next/image";
+import { Translate, useI18n } from "./i18n";
+import { LanguageSwitcher } from "./LanguageSwitcher";
 
 const Header = styled.div`
   display: flex;
@@ -116,17 +126,43 @@ export interface HomeProps {
   candyMachineId: PublicKey;
 }
 const candyMachinOps = {};
+const raritySupply: [number, string][] = [
+  [15, "Anarchist"],
+  [35, "Exalted"],
+  [50, "Cybernetic"],
+  [75, "Rare"],
+  [125, "Uncommon"],
+  [200, "Common"],
+];
+const defaultGuardStates: GuardGroupStates = {
+  isStarted: true,
+  isEnded: false,
+  isLimitReached: false,
+  canPayFor: 10,
+  eligibility: [],
+  isWalletWhitelisted: true,
+  hasGatekeeper: false,
+};
 const Home = (props: HomeProps) => {
+  const { t, formatAmount } = useI18n();
   const { connection } = useConnection();
   const wallet = useWallet();
-  const candyMachineV3 = useCandyMachineV3(
+  const candyMachineV3 = useCandyMachine(
     props.candyMachineId,
     candyMachinOps
   );
 
   const [balance, setBalance] = useState<number>();
   const [mintedItems, setMintedItems] = useState<Nft[]>([]);
-  const [retryCount, setRetryCount] = useState(0);
+  const [nftPicker, setNftPicker] = useState<{
+    groupLabel: string;
+    quantity: number;
+  }>(null);
+  const [selectedGroup, setSelectedGroup] = useState<string>(
+    defaultGuardGroup || "default"
+  );
+  // Solved captchas, one per third party signer request
+  const captcha = useCaptchaTokens();
 
   const [alertState, setAlertState] = useState<AlertState>({
     open: false,
@@ -134,8 +170,28 @@ const Home = (props: HomeProps) => {
     severity: undefined,
   });
 
+  // Default guards alone can't be minted from once the candy guard has groups.
+  const groupLabels = useMemo(() => {
+    const labels = Object.keys(candyMachineV3.guards).filter(
+      (label) => label !== "default"
+    );
+    return labels.length ? labels : ["default"];
+  }, [candyMachineV3.guards]);
+
+  // Only once the groups are loaded, before that the labels are a placeholder
+  // and the configured default group would be lost.
+  const groupsLoaded = candyMachineV3.status.initialFetchGuardGroupsDone;
+  useEffect(() => {
+    if (!groupsLoaded || groupLabels.includes(selectedGroup)) return;
+    setSelectedGroup(
+      groupLabels.includes(defaultGuardGroup)
+        ? defaultGuardGroup
+        : groupLabels[0]
+    );
+  }, [groupsLoaded, groupLabels, selectedGroup]);
+
   const { guardLabel, guards, guardStates, prices } = useMemo(() => {
-    const guardLabel = defaultGuardGroup; // Should be "default"
+    const guardLabel = selectedGroup;
     console.log("Selected guard label:", guardLabel); // Debug
     return {
       guardLabel,
@@ -145,15 +201,8 @@ const Home = (props: HomeProps) => {
         {},
       guardStates:
         candyMachineV3.guardStates[guardLabel] ||
-        candyMachineV3.guardStates.default || {
-          isStarted: true,
-          isEnded: false,
-          isLimitReached: false,
-          canPayFor: 10,
-          messages: [],
-          isWalletWhitelisted: true,
-          hasGatekeeper: false,
-        },
+        candyMachineV3.guardStates.default ||
+        defaultGuardStates,
       prices:
         candyMachineV3.prices[guardLabel] ||
         candyMachineV3.prices.default || {
@@ -163,6 +212,7 @@ const Home = (props: HomeProps) => {
         },
     };
   }, [
+    selectedGroup,
     candyMachineV3.guards,
     candyMachineV3.guardStates,
     candyMachineV3.prices,
@@ -193,79 +243,101 @@ const Home = (props: HomeProps) => {
   }, []);
 
   const startMint = useCallback(
-    async (quantityString: number = 1) => {
+    async (
+      groupLabel: string,
+      quantityString: number = 1,
+      nftGuards?: NftPaymentMintSettings[]
+    ): Promise<number> => {
+      const guards = candyMachineV3.guards[groupLabel] || {};
+      const guardStates =
+        candyMachineV3.guardStates[groupLabel] || defaultGuardStates;
+
       if (!wallet.publicKey || !candyMachineV3) {
         setAlertState({
           open: true,
-          message: "Wallet or Candy Machine not ready!",
+          message: t("home.alert.notReady"),
           severity: "error",
         });
-        return;
+        return 0;
       }
 
       if (!guardStates.isStarted) {
         setAlertState({
           open: true,
-          message: "Mint has not started yet!",
+          message: t("home.alert.notStarted"),
           severity: "error",
         });
-        return;
+        return 0;
       }
 
       if (!guardStates.canPayFor) {
         setAlertState({
           open: true,
-          message: "Cannot pay for the mint!",
+          message: t("home.alert.cannotPay"),
           severity: "error",
         });
-        return;
+        return 0;
       }
 
       if (!candyMachineV3.items.remaining) {
         setAlertState({
           open: true,
-          message: "Sold out!",
+          message: t("home.alert.soldOut"),
           severity: "error",
         });
-        return;
+        return 0;
       }
 
-      if (retryCount < 3) {
-        try {
-          console.log("Mint Parameters:", { quantityString });
-          console.log("Candy Machine State:", {
-            items: candyMachineV3.items,
-            status: candyMachineV3.status,
-          });
+      // Signer requests wait for the captcha to be solved, see useCaptchaTokens
+      const needsCaptcha = !!(captchaSiteKey && guards.thirdPartySigner);
 
-          const items = await candyMachineV3.mint(quantityString, {});
-          setMintedItems(items as any);
-        } catch (e) {
-          if (e.message.includes("429")) {
-            setRetryCount(retryCount + 1);
-            setAlertState({
-              open: true,
-              message: `RPC rate limit hit. Retrying (${retryCount + 1}/3)...`,
-              severity: "warning",
-            });
-            setTimeout(() => startMint(quantityString), 2000);
-          } else {
-            setAlertState({
-              open: true,
-              message: e.message,
-              severity: "error",
-            });
-          }
+      if (!nftGuards && nftActionsRequired(guards).length) {
+        setNftPicker({ groupLabel, quantity: quantityString });
+        return 0;
+      }
+
+      setSelectedGroup(groupLabel);
+
+      try {
+        console.log("Mint Parameters:", { quantityString });
+        console.log("Candy Machine State:", {
+          items: candyMachineV3.items,
+          status: candyMachineV3.status,
+        });
+
+        const items = await candyMachineV3.mint(quantityString, {
+          groupLabel,
+          nftGuards,
+          thirdPartySigner: needsCaptcha
+            ? { getCaptchaToken: captcha.getToken }
+            : undefined,
+        });
+        // Passes spent on use mint one at a time, keep the earlier ones.
+        setMintedItems((x) => [
+          ...x,
+          ...items.filter((item): item is Nft => item.model === "nft"),
+        ]);
+        if (items.length < quantityString) {
+          setAlertState({
+            open: true,
+            message: t("home.alert.partialMint", {
+              minted: items.length,
+              count: quantityString,
+            }),
+            severity: "warning",
+          });
         }
-      } else {
+        return items.length;
+      } catch (e) {
         setAlertState({
           open: true,
-          message: "Max retries reached. Check RPC or try later.",
+          message: mintErrorText(decodeMintError(e), t),
           severity: "error",
         });
+        return 0;
       }
     },
-    [candyMachineV3, wallet, retryCount, guardStates]
+    [candyMachineV3, wallet, t, captcha.getToken]
   );
 
   useEffect(() => {
@@ -307,38 +379,111 @@ const Home = (props: HomeProps) => {
     console.log({ candyMachine: candyMachineV3.candyMachine });
   }, [candyMachineV3.candyMachine]);
 
-  const MintButton = ({
-    gatekeeperNetwork,
-  }: {
-    gatekeeperNetwork?: PublicKey;
-  }) => (
-    <MultiMintButton
-      candyMachine={candyMachineV3.candyMachine}
-      gatekeeperNetwork={gatekeeperNetwork}
-      isMinting={candyMachineV3.status.minting}
-      setIsMinting={() => {}}
-      isActive={!!candyMachineV3.items.remaining}
-      isEnded={guardStates.isEnded}
-      isSoldOut={!candyMachineV3.items.remaining}
-      guardStates={guardStates}
-      onMint={startMint}
-      prices={prices}
-    />
-  );
+  // A render helper rather than a component defined in Home: a new component
+  // type on every render would remount the button, losing the quantity and
+  // stopping a pass mint loop halfway.
+  const renderMintButton = (
+    groupLabel: string,
+    gatekeeperNetwork?: PublicKey,
+    gatekeeperExpireOnUse?: boolean
+  ) => {
+    const states = candyMachineV3.guardStates[groupLabel] || defaultGuardStates;
+    return (
+      <MultiMintButton
+        key={groupLabel}
+        candyMachine={candyMachineV3.candyMachine}
+        gatekeeperNetwork={gatekeeperNetwork}
+        gatekeeperExpireOnUse={gatekeeperExpireOnUse}
+        isMinting={candyMachineV3.status.minting}
+        isVerifyingAllowList={candyMachineV3.status.verifyingAllowList}
+        isActive={!!candyMachineV3.items.remaining && states.isStarted}
+        isEnded={states.isEnded}
+        isSoldOut={!candyMachineV3.items.remaining}
+        guardStates={states}
+        endTime={candyMachineV3.guards[groupLabel]?.endTime}
+        now={candyMachineV3.client.clock.now}
+        mintProgress={
+          groupLabel === guardLabel ? candyMachineV3.mintProgress : undefined
+        }
+        onMint={(quantity) => startMint(groupLabel, quantity)}
+        priorityFee={
+          priorityFeeLamports(
+            candyMachineV3.priorityFee.microLamports,
+            candyMachineV3.priorityFee.computeUnits
+          ) / LAMPORTS_PER_SOL
+        }
+        prices={
+          candyMachineV3.prices[groupLabel] || {
+            payment: [],
+            burn: [],
+            gate: [],
+          }
+        }
+      />
+    );
+  };
+
+  const renderMintArea = (groupLabel: string) => {
+    const groupGuards = candyMachineV3.guards[groupLabel] || {};
+    const states = candyMachineV3.guardStates[groupLabel] || defaultGuardStates;
+    if (!wallet?.publicKey)
+      return <ConnectButton>{t("home.connectWallet")}</ConnectButton>;
+    if (!states.isWalletWhitelisted) return <h1>{t("home.mintIsPrivate")}</h1>;
+    const captchaArea = captchaSiteKey && groupGuards.thirdPartySigner && (
+      <>
+        {captcha.waiting && <p>{t("home.alert.captchaRequired")}</p>}
+        <Captcha key={captcha.key} onToken={captcha.onToken} />
+      </>
+    );
+    // Live counters only hide the pass panel, swapping the whole subtree when
+    // another wallet sells out the machine would remount the mint controls.
+    return states.hasGatekeeper && wallet.signTransaction ? (
+      <GatewayProvider
+        wallet={{
+          publicKey: wallet.publicKey,
+          //@ts-ignore
+          signTransaction: wallet.signTransaction,
+        }}
+        gatekeeperNetwork={groupGuards.gatekeeperNetwork}
+        connection={connection}
+        cluster={network}
+        options={{ autoShowModal: false }}
+      >
+        {!!candyMachineV3.items.remaining && (
+          <GatekeeperPanel
+            gatekeeperNetwork={groupGuards.gatekeeperNetwork}
+            expireOnUse={groupGuards.gatekeeperExpireOnUse}
+          />
+        )}
+        {captchaArea}
+        {renderMintButton(
+          groupLabel,
+          groupGuards.gatekeeperNetwork,
+          groupGuards.gatekeeperExpireOnUse
+        )}
+      </GatewayProvider>
+    ) : (
+      <>
+        {captchaArea}
+        {renderMintButton(groupLabel)}
+      </>
+    );
+  };
 
   return (
     <main>
       <>
         <Header>
+          <LanguageSwitcher />
           <WalletContainer>
             <Wallet>
               {wallet ? (
                 <WalletAmount>
-                  {(balance || 0).toLocaleString()} SOL
+                  {formatAmount(balance || 0, "SOL")}
                   <ConnectButton />
                 </WalletAmount>
               ) : (
-                <ConnectButton>Connect Wallet</ConnectButton>
+                <ConnectButton>{t("home.connectWallet")}</ConnectButton>
               )}
             </Wallet>
           </WalletContainer>
@@ -367,98 +512,91 @@ const Home = (props: HomeProps) => {
                 </Link>
               </Heading>
 
-              <p>
-                Welcome to The Anarchists Collection: the official NFT collection of Anarchy on Solana!
-              </p>
+              <p>{t("home.intro.welcome")}</p>
 
-              <p>
-                Join our Telegram: AnarchySafeZone, and follow AnarchyOnSol on X!
-              </p>
+              <p>{t("home.intro.socials")}</p>
 
               <p>
-                Total number of NFTs available - 500:<br />
-                -15 Anarchist<br />
-                -35 Exalted<br />
-                -50 Cybernetic<br />
-                -75 Rare<br />
-                -125 Uncommon<br />
-                -200 Common
+                {t("home.intro.supply", {
+                  total: raritySupply.reduce((a, [count]) => a + count, 0),
+                })}
+                {raritySupply.map(([count, rarity]) => (
+                  <span key={rarity}>
+                    <br />
+                    {t("home.intro.rarity", { count, rarity })}
+                  </span>
+                ))}
               </p>
 
-              <p>
-                40% of mint proceeds (0.16 SOL per mint) split: 0.10 SOL burns Anarchy tokens, 0.06 SOL boosts the community fund for development and ads.
-              </p>
+              <p>{t("home.intro.proceeds")}</p>
 
-              <p>
-                40% of 5% royalties (2% of each sale) split: 1.5% burns Anarchy, 0.5% supports the community fund.
-              </p>
+              <p>{t("home.intro.royalties")}</p>
 
-              <p>
-                This ensures that even long after the collection has been fully minted, the collection will perpetually burn Anarchy and contribute to the community fund, benefiting all Anarchy holders.
-              </p>
+              <p>{t("home.intro.perpetual")}</p>
 
               {guardStates.isStarted && (
                 <MintCount>
-                  Total Minted : {candyMachineV3.items.redeemed}/
-                  {candyMachineV3.items.available}{" "}
+                  {t("home.totalMinted", {
+                    redeemed: candyMachineV3.items.redeemed,
+                    available: candyMachineV3.items.available,
+                  })}{" "}
                   {(guards?.mintLimit?.mintCounter?.count ||
-                    guards?.mintLimit?.settings?.limit) && (
-                    <>
-                      ({guards?.mintLimit?.mintCounter?.count || "0"}
-                      {guards?.mintLimit?.settings?.limit && (
-                        <>/{guards?.mintLimit?.settings?.limit} </>
-                      )}
-                      by you)
-                    </>
-                  )}
+                    guards?.mintLimit?.settings?.limit) &&
+                    (guards?.mintLimit?.settings?.limit
+                      ? t("home.mintedByYouOfLimit", {
+                          count: guards?.mintLimit?.mintCounter?.count || 0,
+                          limit: guards?.mintLimit?.settings?.limit,
+                        })
+                      : t("home.mintedByYou", {
+                          count: guards?.mintLimit?.mintCounter?.count || 0,
+                        }))}
                 </MintCount>
               )}
+              {groupLabels.length <= 1 && guards.allocation && (
+                <AllocationProgress allocation={guards.allocation} />
+              )}
 
-              {!guardStates.isStarted ? (
+              {groupLabels.length > 1 ? (
+                <GuardGroupList
+                  labels={groupLabels}
+                  guards={candyMachineV3.guards}
+                  guardStates={candyMachineV3.guardStates}
+                  prices={candyMachineV3.prices}
+                  selected={guardLabel}
+                  onSelect={setSelectedGroup}
+                  renderMintButton={renderMintArea}
+                />
+              ) : !guardStates.isStarted ? (
                 <Countdown
                   date={guards.startTime}
-                  renderer={renderGoLiveDateCounter}
+                  now={candyMachineV3.client.clock.now}
+                  renderer={(props) => renderGoLiveDateCounter(props, t)}
                   onComplete={() => {
                     if (candyMachineV3) candyMachineV3.refresh();
                   }}
                 />
-              ) : !wallet?.publicKey ? (
-                <ConnectButton>Connect Wallet</ConnectButton>
-              ) : !guardStates.isWalletWhitelisted ? (
-                <h1>Mint is private.</h1>
               ) : (
-                <>
-                  {!!candyMachineV3.items.remaining &&
-                  guardStates.hasGatekeeper &&
-                  wallet.publicKey &&
-                  wallet.signTransaction ? (
-                    <GatewayProvider
-                      wallet={{
-                        publicKey: wallet.publicKey,
-                        //@ts-ignore
-                        signTransaction: wallet.signTransaction,
-                      }}
-                      gatekeeperNetwork={guards.gatekeeperNetwork}
-                      connection={connection}
-                      cluster={
-                        process.env.NEXT_PUBLIC_SOLANA_NETWORK || "devnet"
-                      }
-                      options={{ autoShowModal: false }}
-                    >
-                      <MintButton
-                        gatekeeperNetwork={guards.gatekeeperNetwork}
-                      />
-                    </GatewayProvider>
-                  ) : (
-                    <MintButton />
-                  )}
-                </>
+                renderMintArea(guardLabel)
               )}
             </Hero>
+            <NftPickerModal
+              guards={
+                (nftPicker && candyMachineV3.guards[nftPicker.groupLabel]) ||
+                {}
+              }
+              quantity={nftPicker?.quantity || 0}
+              open={!!nftPicker}
+              onClose={() => setNftPicker(null)}
+              onConfirm={(nftGuards) => {
+                setNftPicker(null);
+                startMint(nftPicker.groupLabel, nftPicker.quantity, nftGuards);
+              }}
+            />
             <NftsModal
               openOnSolscan={openOnSolscan}
               mintedItems={mintedItems || []}
               setMintedItems={setMintedItems}
+              mintProgress={candyMachineV3.mintProgress}
             />
           </StyledContainer>
           <NftWrapper>
@@ -511,21 +649,27 @@ const Home = (props: HomeProps) => {
 
 export default Home;
 
-const renderGoLiveDateCounter = ({ days, hours, minutes, seconds }: any) => {
+const renderGoLiveDateCounter = (
+  { days, hours, minutes, seconds }: any,
+  t: Translate
+) => {
   return (
     <div>
       <Card elevation={1}>
-        <h1>{days}</h1>Days
+        <h1>{days}</h1>
+        {t("countdown.days", { count: days })}
       </Card>
       <Card elevation={1}>
         <h1>{hours}</h1>
-        Hours
+        {t("countdown.hours", { count: hours })}
       </Card>
       <Card elevation={1}>
-        <h1>{minutes}</h1>Mins
+        <h1>{minutes}</h1>
+        {t("countdown.minutes", { count: minutes })}
       </Card>
       <Card elevation={1}>
-        <h1>{seconds}</h1>Secs
+        <h1>{seconds}</h1>
+        {t("countdown.seconds", { count: seconds })}
       </Card>
     </div>
   );
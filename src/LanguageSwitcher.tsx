@@ -0,0 +1,27 @@
+import { MenuItem, Select } from "@material-ui/core";
+import styled from "styled-components";
+import { catalogs, localeNames, useI18n } from "./i18n";
+
+const LanguageSelect = styled(Select)`
+  margin-right: 16px;
+  min-width: 100px;
+`;
+
+/** Picks the locale of the mint page, remembered in local storage. */
+export const LanguageSwitcher = () => {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <LanguageSelect
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as string)}
+      inputProps={{ "aria-label": t("language.label") }}
+      disableUnderline
+    >
+      {Object.keys(catalogs).map((x) => (
+        <MenuItem key={x} value={x}>
+          {localeNames[x] || x}
+        </MenuItem>
+      ))}
+    </LanguageSelect>
+  );
+};
@@ -6,6 +6,8 @@ import { useEffect, useRef, useState } from "react";
 import styled from "styled-components";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import { PublicKey } from "@solana/web3.js";
+import { UmiCandyMachine } from "./hooks/UmiCandyMachineClient";
+import { useI18n } from "./i18n";
 
 function usePrevious<T>(value: T): T | undefined {
   const ref = useRef<T>();
@@ -35,7 +37,7 @@ export const MintButton = ({
   gatekeeperNetwork
 }: {
   onMint: (quantityString: number) => Promise<void>;
-  candyMachine: CandyMachine | undefined;
+  candyMachine: CandyMachine | UmiCandyMachine | undefined;
   isMinting: boolean;
   setIsMinting: (val: boolean) => void;
   isEnded: boolean;
@@ -44,6 +46,7 @@ export const MintButton = ({
   limitReached: boolean;
   gatekeeperNetwork?: PublicKey;
 }) => {
+  const { t } = useI18n();
   const { requestGatewayToken, gatewayStatus } = useGateway();
   const [loading, setLoading] = useState(false);
   const [waitForActiveToken, setWaitForActiveToken] = useState(false);
@@ -90,21 +93,21 @@ export const MintButton = ({
       variant="contained"
     >
       {!candyMachine ? (
-        "CONNECTING..."
+        t("mint.connecting")
       ) : isSoldOut ? (
-        "SOLD OUT"
+        t("mint.soldOut")
       ) : limitReached ? (
-        "LIMIT REACHED"
+        t("mint.limitReached")
       ) : isActive ? (
         isMinting || loading ? (
           <CircularProgress />
         ) : (
-          "MINT"
+          t("mint.mint")
         )
       ) : isEnded ? (
-        "ENDED"
+        t("mint.ended")
       ) : (
-        "UNAVAILABLE"
+        t("mint.unavailable")
       )}
     </CTAButton>
   );
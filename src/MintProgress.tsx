@@ -0,0 +1,67 @@
+import { CircularProgress } from "@material-ui/core";
+import { WalletAdapterNetwork } from "@solana/wallet-adapter-base";
+import styled from "styled-components";
+import { network } from "./config";
+import { mintErrorText } from "./hooks/errors";
+import { MintTransactionPhase } from "./hooks/types";
+import { useI18n } from "./i18n";
+
+const Steps = styled.ol`
+  list-style: none;
+  margin: 10px auto;
+  padding: 0;
+  max-width: 420px;
+  text-align: left;
+
+  li {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    margin: 4px 0;
+  }
+  a {
+    color: inherit;
+  }
+`;
+
+const isPending = (phase: MintTransactionPhase["phase"]) =>
+  ["preparing", "awaiting-signature", "sent"].includes(phase);
+
+const explorerUrl = (signature: string) =>
+  `https://solscan.io/tx/${signature}${
+    [WalletAdapterNetwork.Devnet, WalletAdapterNetwork.Testnet].includes(
+      network
+    )
+      ? `?cluster=${network}`
+      : ""
+  }`;
+
+export const MintProgress = ({
+  progress,
+}: {
+  progress: MintTransactionPhase[];
+}) => {
+  const { t } = useI18n();
+  return (
+    <Steps>
+      {progress.map((step, i) => (
+        <li key={i}>
+          {isPending(step.phase) && <CircularProgress size={14} />}
+          <span>
+            #{i + 1} {t(`progress.${step.phase}`)}
+            {step.phase === "failed" && `: ${mintErrorText(step.error, t)}`}
+          </span>
+          {"signature" in step && step.signature && (
+            <a
+              href={explorerUrl(step.signature)}
+              target="_blank"
+              rel="noreferrer"
+            >
+              {t("progress.tx")}
+            </a>
+          )}
+        </li>
+      ))}
+    </Steps>
+  );
+};
@@ -1,12 +1,25 @@
 import { CircularProgress } from "@material-ui/core";
 import Button from "@material-ui/core/Button";
+import Alert from "@material-ui/lab/Alert";
 import { CandyMachine } from "@metaplex-foundation/js";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import styled from "styled-components";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import { PublicKey } from "@solana/web3.js";
-import { GatewayStatus, useGateway } from "@civic/solana-gateway-react";
-import { GuardGroupStates, ParsedPricesForUI, PaymentRequired } from "./hooks/types";
+import { UmiCandyMachine } from "./hooks/UmiCandyMachineClient";
+import {
+  GuardGroupStates,
+  MintTransactionPhase,
+  ParsedPricesForUI,
+  PaymentRequired,
+} from "./hooks/types";
+import { maxTimeout } from "./hooks/clusterClock";
+import { eligibilityText, failedChecks } from "./hooks/eligibility";
+import { decodedError } from "./hooks/errors";
+import useGatekeeperPass from "./hooks/useGatekeeperPass";
+import { EligibilityChecklist } from "./EligibilityChecklist";
+import { useI18n } from "./i18n";
+import { MintProgress } from "./MintProgress";
 
 export const CTAButton = styled(Button)`
   display: inline-block !important;
@@ -84,13 +97,9 @@ export const NumericField = styled.input`
   }
 `;
 
-function usePrevious<T>(value: T): T | undefined {
-  const ref = useRef<T>();
-  useEffect(() => {
-    ref.current = value;
-  }, [value]);
-  return ref.current;
-}
+// Mints sent this close to the end of a phase may land after it and be
+// charged the bot tax instead.
+const endingSoonMargin = 60_000;
 
 const deepClone = (items: PaymentRequired[]): PaymentRequired[] =>
   items.map((item) => ({ ...item }));
@@ -99,31 +108,80 @@ export const MultiMintButton = ({
   onMint,
   candyMachine,
   isMinting,
-  setIsMinting,
+  isVerifyingAllowList,
   isEnded,
   isActive,
   isSoldOut,
   prices,
   guardStates,
   gatekeeperNetwork,
+  gatekeeperExpireOnUse,
+  mintProgress,
+  priorityFee = 0,
+  endTime,
+  now = Date.now,
 }: {
-  onMint: (quantityString: number) => Promise<void>;
-  candyMachine: CandyMachine | undefined;
+  // Resolves to the number of NFTs that landed
+  onMint: (quantityString: number) => Promise<number>;
+  candyMachine: CandyMachine | UmiCandyMachine | undefined;
   isMinting: boolean;
-  setIsMinting: (val: boolean) => void;
+  isVerifyingAllowList?: boolean;
   isEnded: boolean;
   isActive: boolean;
   isSoldOut: boolean;
   prices: ParsedPricesForUI;
   guardStates: GuardGroupStates;
   gatekeeperNetwork?: PublicKey;
+  gatekeeperExpireOnUse?: boolean;
+  mintProgress?: MintTransactionPhase[];
+  // Priority fee of one mint transaction, in SOL
+  priorityFee?: number;
+  endTime?: Date;
+  // Cluster time, the end date is checked against it
+  now?: () => number;
 }) => {
+  const { t, formatAmount } = useI18n();
   const [loading, setLoading] = useState(false);
 
   const [mintCount, setMintCount] = useState(1);
-  const { requestGatewayToken, gatewayStatus } = useGateway();
-  const [waitForActiveToken, setWaitForActiveToken] = useState(false);
+  const { ensureActivePass, waitForPassUsed } = useGatekeeperPass();
   const limit = useMemo(() => guardStates.canPayFor, [guardStates]);
+  const failed = useMemo(() => failedChecks(guardStates), [guardStates]);
+
+  const [isEndingSoon, setIsEndingSoon] = useState(false);
+  useEffect(() => {
+    if (!endTime) return setIsEndingSoon(false);
+    let timer: ReturnType<typeof setTimeout>;
+    const update = () => {
+      const untilEndingSoon = endTime.getTime() - endingSoonMargin - now();
+      setIsEndingSoon(untilEndingSoon < 0);
+      if (untilEndingSoon >= 0)
+        timer = setTimeout(update, Math.min(untilEndingSoon, maxTimeout));
+    };
+    update();
+    return () => clearTimeout(timer);
+  }, [endTime, now]);
+
+  // Why a mint sent now would fail, and be charged the bot tax if the group
+  // has one.
+  const invalidReason = useMemo(() => {
+    if (isSoldOut || !candyMachine) return undefined;
+    if (isEnded) return t("mint.invalid.ended");
+    if (!isActive) return t("mint.invalid.notStarted");
+    if (failed.length) return eligibilityText(failed[0], t);
+    if (mintCount > limit) return t("mint.invalid.overLimit", { limit });
+    if (isEndingSoon) return t("mint.invalid.endingSoon");
+  }, [
+    t,
+    candyMachine,
+    failed,
+    isActive,
+    isEnded,
+    isEndingSoon,
+    isSoldOut,
+    limit,
+    mintCount,
+  ]);
 
   const totalSolCost = useMemo(
     () =>
@@ -132,9 +190,10 @@ export const MultiMintButton = ({
           (prices.payment
             .filter(({ kind }) => kind === "sol")
             .reduce((a, { price }) => a + price, 0) +
-            0.012)
-        : 0.012,
-    [mintCount, prices]
+            0.012 +
+            priorityFee)
+        : 0.012 + priorityFee,
+    [mintCount, prices, priorityFee]
   );
 
   const totalTokenCosts = useMemo((): PaymentRequired[] => {
@@ -159,56 +218,39 @@ export const MultiMintButton = ({
 
   const totalTokenCostsString = useMemo(() => {
     return totalTokenCosts.reduce(
-      (text, price) => `${text} + ${price.price} ${price.label}`,
+      (text, price) => `${text} + ${formatAmount(price.price, price.label)}`,
       ""
     );
-  }, [totalTokenCosts]);
+  }, [totalTokenCosts, formatAmount]);
 
-  const previousGatewayStatus = usePrevious(gatewayStatus);
-  useEffect(() => {
-    const fromStates = [
-      GatewayStatus.NOT_REQUESTED,
-      GatewayStatus.REFRESH_TOKEN_REQUIRED,
-    ];
-    const invalidToStates = [...fromStates, GatewayStatus.UNKNOWN];
-    if (
-      fromStates.find((state) => previousGatewayStatus === state) &&
-      !invalidToStates.find((state) => gatewayStatus === state)
-    ) {
-      setIsMinting(true);
+  // A pass spent on use only covers one mint, so each one gets a fresh pass.
+  const mintWithPass = async () => {
+    if (!gatekeeperNetwork) return onMint(mintCount);
+    if (!gatekeeperExpireOnUse) {
+      await ensureActivePass();
+      return onMint(mintCount);
     }
-  }, [previousGatewayStatus, gatewayStatus, setIsMinting]);
-
-  useEffect(() => {
-    if (waitForActiveToken && gatewayStatus === GatewayStatus.ACTIVE) {
-      console.log("Minting after token active");
-      setWaitForActiveToken(false);
-      onMint(mintCount);
+    for (let i = 0; i < mintCount; i++) {
+      // A pass still showing as active was spent but not noticed yet,
+      // minting with it would fail (and could be bot taxed).
+      if (i && (await waitForPassUsed()) === "active")
+        throw decodedError("Spent gatekeeper pass still shows as active.", {
+          source: "unknown",
+          guard: "gatekeeper",
+          messageKey: "errors.gatekeeperPassStillActive",
+          retryable: true,
+        });
+      await ensureActivePass();
+      if (!(await onMint(1))) break;
     }
-  }, [waitForActiveToken, gatewayStatus, onMint, mintCount]);
+  };
 
   function incrementValue() {
-    const numericField = document.querySelector(".mint-qty") as HTMLInputElement;
-    if (numericField) {
-      let value = parseInt(numericField.value);
-      if (!isNaN(value) && value < 10) {
-        value++;
-        numericField.value = "" + value;
-        updateAmounts(value);
-      }
-    }
+    if (mintCount < 10) updateAmounts(mintCount + 1);
   }
 
   function decrementValue() {
-    const numericField = document.querySelector(".mint-qty") as HTMLInputElement;
-    if (numericField) {
-      let value = parseInt(numericField.value);
-      if (!isNaN(value) && value > 1) {
-        value--;
-        numericField.value = "" + value;
-        updateAmounts(value);
-      }
-    }
+    if (mintCount > 1) updateAmounts(mintCount - 1);
   }
 
   function updateMintCount(target: HTMLInputElement) {
@@ -236,8 +278,21 @@ export const MultiMintButton = ({
       isMinting ||
       isEnded ||
       !isActive ||
-      mintCount > limit,
-    [loading, isSoldOut, isMinting, isEnded, isActive, limit, mintCount]
+      mintCount > limit ||
+      !!failed.length ||
+      (isEndingSoon && !!prices?.botTax),
+    [
+      loading,
+      isSoldOut,
+      isMinting,
+      isEnded,
+      isActive,
+      limit,
+      mintCount,
+      failed,
+      isEndingSoon,
+      prices,
+    ]
   );
 
   return (
@@ -270,53 +325,80 @@ export const MultiMintButton = ({
         <CTAButton
           disabled={disabled}
           onClick={async () => {
-            console.log("isActive gatekeeperNetwork", {
-              isActive,
-              gatekeeperNetwork,
-            });
-            if (isActive && gatekeeperNetwork) {
-              if (gatewayStatus === GatewayStatus.ACTIVE) {
-                await onMint(mintCount);
-              } else {
-                setWaitForActiveToken(true);
-                await requestGatewayToken();
-              }
-            } else {
-              await onMint(mintCount);
+            setLoading(true);
+            try {
+              await mintWithPass();
+            } catch (e) {
+              console.error("Gatekeeper pass not available", e);
+            } finally {
+              setLoading(false);
             }
           }}
           variant="contained"
         >
           {!candyMachine ? (
-            "CONNECTING..."
+            t("mint.connecting")
           ) : isSoldOut ? (
-            "SOLD OUT"
-          ) : isActive ? (guardStates.messages.length ? (
-            guardStates.messages[0]
-          ) : (
-            mintCount > limit ? (
-              "LIMIT REACHED"
+            t("mint.soldOut")
+          ) : isActive ? (
+            failed.length ? (
+              eligibilityText(failed[0], t)
+            ) : mintCount > limit ? (
+              t("mint.limitReached")
+            ) : isVerifyingAllowList ? (
+              t("mint.verifyingAllowList")
             ) : isMinting || loading ? (
               <CircularProgress />
             ) : (
-              "MINT"
+              t("mint.mint")
             )
-          )) : isEnded ? (
-            "ENDED"
+          ) : isEnded ? (
+            t("mint.ended")
           ) : (
-            "UNAVAILABLE"
+            t("mint.unavailable")
           )}
         </CTAButton>
       </div>
+      {!!prices?.botTax && !!invalidReason && (
+        <Alert severity="warning">
+          {t("mint.botTaxBlocked", {
+            price: formatAmount(prices.botTax.price, "SOL"),
+            reason: invalidReason,
+          })}
+        </Alert>
+      )}
+      {isMinting && !!mintProgress?.length && (
+        <MintProgress progress={mintProgress} />
+      )}
       {!isSoldOut && isActive && (
         <h3>
-          Total estimated cost (Solana fees included): {totalSolCost} SOL
+          {t("mint.totalCost", { cost: formatAmount(totalSolCost, "SOL") })}
           {totalTokenCostsString}
+          {prices?.payment.some(({ escrow }) => escrow) && (
+            <small>
+              <br />
+              {t("mint.escrowNote")}
+            </small>
+          )}
+          {!!prices?.botTax && (
+            <small>
+              <br />
+              {t("mint.botTaxNote", {
+                price: formatAmount(prices.botTax.price, "SOL"),
+              })}
+            </small>
+          )}
+          {!!priorityFee && (
+            <small>
+              <br />
+              {t("mint.priorityFeeNote", {
+                fee: formatAmount(mintCount * priorityFee, "SOL"),
+              })}
+            </small>
+          )}
         </h3>
       )}
-      {guardStates.messages?.map((m, i) => (
-        <p key={i}>{m}</p>
-      ))}
+      <EligibilityChecklist eligibility={guardStates.eligibility} />
     </div>
   );
-}
\ No newline at end of file
+};
@@ -0,0 +1,184 @@
+import React from "react";
+import Dialog from "@material-ui/core/Dialog";
+import DialogActions from "@material-ui/core/DialogActions";
+import DialogContent from "@material-ui/core/DialogContent";
+import DialogTitle from "@material-ui/core/DialogTitle";
+import Card from "@material-ui/core/Card";
+import CardActionArea from "@material-ui/core/CardActionArea";
+import CardContent from "@material-ui/core/CardContent";
+import CardMedia from "@material-ui/core/CardMedia";
+import Typography from "@material-ui/core/Typography";
+import Grid from "@material-ui/core/Grid";
+
+import { Metadata } from "@metaplex-foundation/js";
+import { Action } from "./NftsModal";
+import { GuardGroup, NftPaymentMintSettings } from "./hooks/types";
+import { MessageKey, useI18n } from "./i18n";
+
+type NftAction = "payment" | "burn" | "gate";
+
+const actionTitles: { [k in NftAction]: MessageKey } = {
+  payment: "nftPicker.payment",
+  burn: "nftPicker.burn",
+  gate: "nftPicker.gate",
+};
+
+// Payment and burn consume one NFT per mint, a gate NFT can be reused.
+const requiredPicks = (action: NftAction, quantity: number) =>
+  action === "gate" ? 1 : quantity;
+
+export const nftActionsRequired = (guards: GuardGroup): NftAction[] =>
+  (["payment", "burn", "gate"] as NftAction[]).filter(
+    (action) => guards[action]?.requiredCollection
+  );
+
+const NftPickerCard = ({
+  nft,
+  selected,
+  disabled,
+  onClick,
+}: {
+  nft: Metadata;
+  selected: boolean;
+  disabled: boolean;
+  onClick: () => void;
+}) => {
+  const [image, setImage] = React.useState<string>();
+
+  React.useEffect(() => {
+    let mounted = true;
+    fetch(nft.uri)
+      .then((res) => res.json())
+      .then((json) => mounted && setImage(json.image))
+      .catch((e) => console.error("Failed to load nft metadata", e));
+    return () => {
+      mounted = false;
+    };
+  }, [nft.uri]);
+
+  return (
+    <Card
+      style={{
+        outline: selected ? "3px solid var(--title-text-color)" : undefined,
+        opacity: disabled && !selected ? 0.5 : 1,
+      }}
+    >
+      <CardActionArea disabled={disabled && !selected} onClick={onClick}>
+        {image && <CardMedia component="img" image={image} />}
+        <CardContent>
+          <Typography variant="body1" component="p">
+            {nft.name}
+          </Typography>
+        </CardContent>
+      </CardActionArea>
+    </Card>
+  );
+};
+
+export default function NftPickerModal({
+  guards,
+  quantity,
+  open,
+  onClose,
+  onConfirm,
+}: {
+  guards: GuardGroup;
+  quantity: number;
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (nftGuards: NftPaymentMintSettings[]) => void;
+}) {
+  const { t } = useI18n();
+  const actions = React.useMemo(() => nftActionsRequired(guards), [guards]);
+  const [step, setStep] = React.useState(0);
+  const [picks, setPicks] = React.useState<{ [k in NftAction]?: Metadata[] }>(
+    {}
+  );
+
+  React.useEffect(() => {
+    if (!open) {
+      setStep(0);
+      setPicks({});
+    }
+  }, [open]);
+
+  const action = actions[step];
+  const selected = (action && picks[action]) || [];
+  const required = action ? requiredPicks(action, quantity) : 0;
+
+  // An NFT spent by one guard can't be spent again by another.
+  const available = React.useMemo(() => {
+    if (!action) return [];
+    const spent = actions
+      .filter((x) => x !== action && x !== "gate")
+      .flatMap((x) => picks[x] || []);
+    return (guards[action].nfts || []).filter(
+      (nft) => !spent.find((y) => y.address.equals(nft.address))
+    );
+  }, [action, actions, picks, guards]);
+
+  const toggle = (nft: Metadata) => {
+    setPicks((x) => {
+      const current = x[action] || [];
+      return {
+        ...x,
+        [action]: current.find((y) => y.address.equals(nft.address))
+          ? current.filter((y) => !y.address.equals(nft.address))
+          : [...current, nft],
+      };
+    });
+  };
+
+  const next = () => {
+    if (step < actions.length - 1) return setStep(step + 1);
+    const nftGuards: NftPaymentMintSettings[] = [...Array(quantity)].map(
+      (_, i) =>
+        actions.reduce((settings, action) => {
+          const nft = picks[action][action === "gate" ? 0 : i];
+          return Object.assign(settings, {
+            [action]: {
+              mint: nft.mintAddress,
+              tokenStandard: nft.tokenStandard,
+              ruleSet: nft.programmableConfig?.ruleSet ?? undefined,
+            },
+          });
+        }, {} as NftPaymentMintSettings)
+    );
+    onConfirm(nftGuards);
+  };
+
+  return (
+    <Dialog
+      open={open && !!action}
+      onClose={onClose}
+      aria-labelledby="nft-picker-title"
+      maxWidth={"md"}
+    >
+      <DialogTitle id="nft-picker-title">
+        {action && t(actionTitles[action])} ({selected.length}/{required})
+      </DialogTitle>
+      <DialogContent>
+        <Grid container spacing={1}>
+          {available.map((nft) => (
+            <Grid item xs={4} key={nft.address.toString()}>
+              <NftPickerCard
+                nft={nft}
+                selected={!!selected.find((y) => y.address.equals(nft.address))}
+                disabled={selected.length >= required}
+                onClick={() => toggle(nft)}
+              />
+            </Grid>
+          ))}
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        <Action onClick={onClose}>{t("nftPicker.cancel")}</Action>
+        <Action disabled={selected.length !== required} onClick={next}>
+          {step < actions.length - 1
+            ? t("nftPicker.next")
+            : t("nftPicker.mint")}
+        </Action>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -16,6 +16,19 @@ import Grid from "@material-ui/core/Grid";
 import styled from "styled-components";
 
 import { Nft, NftWithToken } from "@metaplex-foundation/js";
+import {
+  TokenStandard,
+  TokenState,
+} from "@metaplex-foundation/mpl-token-metadata";
+import { AccountState } from "@solana/spl-token";
+import { useConnection } from "@solana/wallet-adapter-react";
+import {
+  fetchTokenRecordState,
+  TokenRecordState,
+} from "./hooks/programmable";
+import { MintTransactionPhase } from "./hooks/types";
+import { MintProgress } from "./MintProgress";
+import { MessageKey, useI18n } from "./i18n";
 export const Action = styled.button`
   font-size: 1.2em;
   padding: 15px 20px;
@@ -45,15 +58,141 @@ export const Action = styled.button`
     outline: 1px solid var(--title-text-color);
   }
 `;
+const tokenStateLabels: { [k in TokenState]: MessageKey } = {
+  [TokenState.Unlocked]: "nfts.state.unlocked",
+  [TokenState.Locked]: "nfts.state.locked",
+  [TokenState.Listed]: "nfts.state.listed",
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+const NftCard = ({
+  nft,
+  openOnSolscan,
+}: {
+  nft: Nft | NftWithToken;
+  openOnSolscan: (key: string) => void;
+}) => {
+  const { t } = useI18n();
+  const { connection } = useConnection();
+  const [tokenRecord, setTokenRecord] = React.useState<TokenRecordState>();
+  const programmable =
+    (nft.tokenStandard as number) === TokenStandard.ProgrammableNonFungible;
+  const ruleSet = nft.programmableConfig?.ruleSet;
+  // Minted through a freeze payment guard and not thawed yet
+  const frozen = programmable
+    ? !!tokenRecord?.locked
+    : "token" in nft && nft.token.state === AccountState.Frozen;
+
+  // pNFTs keep their lock state in a token record next to the token account.
+  React.useEffect(() => {
+    if (!programmable || !("token" in nft)) return;
+    let mounted = true;
+    fetchTokenRecordState(connection, nft.address, nft.token.address)
+      .then((x) => mounted && setTokenRecord(x))
+      .catch((e) => console.error("Failed to load token record", e));
+    return () => {
+      mounted = false;
+    };
+  }, [connection, nft, programmable]);
+
+  return (
+    <Card>
+      <CardActionArea>
+        {nft.json.image && (
+          <CardMedia
+            component="img"
+            //   alt="Contemplative Reptile"
+            //   height="140"
+            image={nft.json.image}
+            //   title="Contemplative Reptile"
+          />
+        )}
+        <CardContent>
+          {nft.json.name && (
+            <Typography gutterBottom variant="h5" component="h2">
+              {nft.json.name}
+            </Typography>
+          )}
+          {nft.json.description && (
+            <Typography variant="body2" color="textSecondary" component="p">
+              {nft.json.description}
+            </Typography>
+          )}
+        </CardContent>
+        {programmable && (
+          <CardContent>
+            <Chip
+              label={t("nfts.programmable")}
+              size="small"
+              style={{ margin: 2 }}
+            />
+            <Chip
+              label={
+                ruleSet
+                  ? t("nfts.ruleSet", {
+                      address: shortAddress(ruleSet.toString()),
+                    })
+                  : t("nfts.noRuleSet")
+              }
+              size="small"
+              variant="outlined"
+              style={{ margin: 2 }}
+            />
+            {tokenRecord && (
+              <Chip
+                label={t(tokenStateLabels[tokenRecord.state])}
+                size="small"
+                variant="outlined"
+                style={{
+                  margin: 2,
+                  borderColor: tokenRecord.locked ? yellow[700] : undefined,
+                }}
+              />
+            )}
+          </CardContent>
+        )}
+        {frozen && (
+          <CardContent>
+            <Chip
+              label={t("nfts.frozen")}
+              size="small"
+              variant="outlined"
+              style={{ margin: 2, borderColor: yellow[700] }}
+            />
+          </CardContent>
+        )}
+        <CardContent>
+          {nft.json.attributes?.map(({ trait_type, value }) => (
+            <Chip
+              label={`${trait_type}: ${value}`}
+              variant="outlined"
+              key={trait_type}
+              style={{margin: 2}}
+            />
+          ))}
+        </CardContent>
+      </CardActionArea>
+      <CardActions >
+        <Action style={{width: "100%"}} onClick={() => openOnSolscan(nft.address.toString())}>{t("nfts.viewOnSolscan")}</Action>
+      </CardActions>
+    </Card>
+  );
+};
+
 export default function NftsModal({
   mintedItems,
   setMintedItems,
-  openOnSolscan
+  openOnSolscan,
+  mintProgress = [],
 }: {
   mintedItems: (Nft | NftWithToken)[];
   setMintedItems: any;
-  openOnSolscan: (key: string) => void
+  openOnSolscan: (key: string) => void;
+  mintProgress?: MintTransactionPhase[];
 }) {
+  const { t } = useI18n();
   const handleClose = () => {
     setMintedItems([]);
   };
@@ -68,62 +207,22 @@ export default function NftsModal({
       maxWidth={"md"}
     >
       <DialogTitle id="alert-dialog-slide-title">
-        Nfts you had just minted!
+        {t("nfts.title", { count: mintedItems.length })}
       </DialogTitle>
       <DialogContent>
+        {mintProgress.length > 1 && <MintProgress progress={mintProgress} />}
         <DialogContentText id="alert-dialog-slide-description">
           <Grid container spacing={1}>
             {mintedItems.map((nft, key) => (
               <Grid item xs={4} key={key}>
-                <Card>
-                  <CardActionArea>
-                    {nft.json.image && (
-                      <CardMedia
-                        component="img"
-                        //   alt="Contemplative Reptile"
-                        //   height="140"
-                        image={nft.json.image}
-                        //   title="Contemplative Reptile"
-                      />
-                    )}
-                    <CardContent>
-                      {nft.json.name && (
-                        <Typography gutterBottom variant="h5" component="h2">
-                          {nft.json.name}
-                        </Typography>
-                      )}
-                      {nft.json.description && (
-                        <Typography
-                          variant="body2"
-                          color="textSecondary"
-                          component="p"
-                        >
-                          {nft.json.description}
-                        </Typography>
-                      )}
-                    </CardContent>
-                    <CardContent>
-                      {nft.json.attributes?.map(({ trait_type, value }) => (
-                        <Chip
-                          label={`${trait_type}: ${value}`}
-                          variant="outlined"
-                          key={trait_type}
-                          style={{margin: 2}}
-                        />
-                      ))}
-                    </CardContent>
-                  </CardActionArea>
-                  <CardActions >
-                    <Action style={{width: "100%"}} onClick={() => openOnSolscan(nft.address.toString())}>View on solscan</Action>
-                  </CardActions>
-                </Card>
+                <NftCard nft={nft} openOnSolscan={openOnSolscan} />
               </Grid>
             ))}
           </Grid>
         </DialogContentText>
       </DialogContent>
       <DialogActions>
-        <Action onClick={handleClose}>Close</Action>
+        <Action onClick={handleClose}>{t("nfts.close")}</Action>
       </DialogActions>
     </Dialog>
   );
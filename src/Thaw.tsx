@@ -0,0 +1,278 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Paper, Snackbar } from "@material-ui/core";
+import Button from "@material-ui/core/Button";
+import Alert from "@material-ui/lab/Alert";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
+import { PublicKey } from "@solana/web3.js";
+import Link from "next/link";
+import styled from "styled-components";
+import { FrozenNft } from "./hooks/CandyMachineClient";
+import { decodeMintError, mintErrorText } from "./hooks/errors";
+import { isThawable } from "./hooks/freeze";
+import { GuardGroup } from "./hooks/types";
+import useCandyMachine from "./hooks/useCandyMachine";
+import { Translate, useI18n } from "./i18n";
+import { Heading, Hero, Root, StyledContainer } from "./styles";
+import { AlertState } from "./utils";
+
+const Header = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  margin: 30px;
+`;
+
+const ConnectButton = styled(WalletMultiButton)`
+  border-radius: 5px !important;
+  padding: 6px 16px;
+  background-color: #fff;
+  color: #000;
+  margin: 0 auto;
+`;
+
+const GroupCard = styled(Paper)`
+  background-color: var(--countdown-background-color) !important;
+  margin: 10px auto;
+  padding: 16px 24px;
+  max-width: 600px;
+  text-align: center;
+  h2 {
+    margin: 0 0 8px;
+    text-transform: uppercase;
+  }
+  p {
+    margin: 4px 0;
+  }
+`;
+
+const NftRow = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 16px;
+  margin: 8px 0;
+`;
+
+export interface ThawProps {
+  candyMachineId: PublicKey;
+}
+const candyMachineOpts = {};
+
+const thawText = (
+  guards: GuardGroup,
+  items: { remaining: number },
+  now: number,
+  t: Translate,
+  formatDate: (date: Date) => string
+): string => {
+  const escrow = guards.freeze.escrow;
+  if (escrow === undefined) return t("thaw.loading");
+  if (escrow === null) return t("thaw.escrowNotInitialized");
+  if (isThawable(escrow, items, now)) return t("thaw.open");
+  return escrow.thawDate
+    ? t("thaw.opensAt", { date: formatDate(escrow.thawDate) })
+    : t("thaw.opensAfterFreeze");
+};
+
+/**
+ * Holders thaw NFTs frozen by a freeze payment guard once the group allows
+ * it, the candy guard authority unlocks the escrowed funds after that.
+ */
+const Thaw = (props: ThawProps) => {
+  const { publicKey } = useWallet();
+  const { t, formatDate } = useI18n();
+  const candyMachineV3 = useCandyMachine(
+    props.candyMachineId,
+    candyMachineOpts
+  );
+  const { client, guards, items, nftHoldings, refresh } = candyMachineV3;
+  const loaded = !!candyMachineV3.candyMachine;
+
+  const [frozenNfts, setFrozenNfts] = useState<FrozenNft[]>([]);
+  const [busy, setBusy] = useState<string>(null);
+  const [alertState, setAlertState] = useState<AlertState>({
+    open: false,
+    message: "",
+    severity: undefined,
+  });
+
+  const freezeGroups = useMemo(
+    () => Object.entries(guards).filter(([, group]) => group.freeze),
+    [guards]
+  );
+
+  useEffect(() => {
+    if (!publicKey || !loaded) return setFrozenNfts([]);
+    let mounted = true;
+    client
+      .fetchFrozenNfts(nftHoldings, publicKey)
+      .then((x) => mounted && setFrozenNfts(x))
+      .catch((e) => console.error("Failed to load frozen NFTs", e));
+    return () => {
+      mounted = false;
+    };
+  }, [client, loaded, nftHoldings, publicKey]);
+
+  // The NFT's delegate is the escrow of the group that froze it.
+  const groupOf = useCallback(
+    ({ escrow }: FrozenNft) =>
+      freezeGroups.find(
+        ([, group]) => escrow && group.freeze.escrow?.address.equals(escrow)
+      ) || (freezeGroups.length === 1 ? freezeGroups[0] : undefined),
+    [freezeGroups]
+  );
+
+  const run = useCallback(
+    async (key: string, action: () => Promise<string>, success: string) => {
+      setBusy(key);
+      try {
+        const signature = await action();
+        console.log(`${key} landed:`, signature);
+        setAlertState({ open: true, message: success, severity: "success" });
+      } catch (e) {
+        console.error(`${key} failed:`, e);
+        setAlertState({
+          open: true,
+          message: mintErrorText(decodeMintError(e), t),
+          severity: "error",
+        });
+      } finally {
+        setBusy(null);
+        refresh();
+      }
+    },
+    [refresh, t]
+  );
+
+  const thaw = useCallback(
+    (frozen: FrozenNft) => {
+      const [label, group] = groupOf(frozen);
+      return run(
+        frozen.nft.mintAddress.toString(),
+        () =>
+          client.thaw(label, group, frozen.nft).then((signature) => {
+            setFrozenNfts((x) => x.filter((y) => y !== frozen));
+            return signature;
+          }),
+        t("thaw.thawed", { name: frozen.nft.name })
+      );
+    },
+    [client, groupOf, run, t]
+  );
+
+  return (
+    <main>
+      <Header>
+        <ConnectButton />
+      </Header>
+      <Root>
+        <StyledContainer>
+          <Hero>
+            <Heading>{t("thaw.title")}</Heading>
+            <p>
+              <Link href="/">{t("thaw.backToMint")}</Link>
+            </p>
+            {!publicKey ? (
+              <p>{t("thaw.connectWallet")}</p>
+            ) : !loaded ? (
+              <p>{t("thaw.loading")}</p>
+            ) : !freezeGroups.length ? (
+              <p>{t("thaw.notFrozen")}</p>
+            ) : (
+              freezeGroups.map(([label, group]) => {
+                const escrow = group.freeze.escrow;
+                const isAuthority =
+                  !!escrow && !!publicKey && escrow.authority.equals(publicKey);
+                return (
+                  <GroupCard key={label} elevation={1}>
+                    <h2>{label}</h2>
+                    <p>
+                      {thawText(
+                        group,
+                        items,
+                        client.clock.now(),
+                        t,
+                        formatDate
+                      )}
+                    </p>
+                    {!!escrow && (
+                      <p>
+                        {t("thaw.frozenCount", { count: escrow.frozenCount })}
+                      </p>
+                    )}
+                    {isAuthority && (
+                      <>
+                        <Button
+                          variant="contained"
+                          disabled={!!busy || escrow.frozenCount > 0}
+                          onClick={() =>
+                            run(
+                              `unlock-${label}`,
+                              () => client.unlockFunds(label, group),
+                              t("thaw.fundsUnlocked")
+                            )
+                          }
+                        >
+                          {t("thaw.unlockFunds")}
+                        </Button>
+                        {escrow.frozenCount > 0 && (
+                          <p>
+                            <small>{t("errors.UnlockNotEnabled")}</small>
+                          </p>
+                        )}
+                      </>
+                    )}
+                  </GroupCard>
+                );
+              })
+            )}
+            {!!publicKey && loaded && !!freezeGroups.length && (
+              <GroupCard elevation={1}>
+                <h2>{t("thaw.yourFrozenNfts")}</h2>
+                {!frozenNfts.length && <p>{t("thaw.noneFrozen")}</p>}
+                {frozenNfts.map((frozen) => {
+                  const group = groupOf(frozen);
+                  const key = frozen.nft.mintAddress.toString();
+                  return (
+                    <NftRow key={key}>
+                      <span>{frozen.nft.name}</span>
+                      <Button
+                        variant="contained"
+                        disabled={
+                          !!busy ||
+                          !group ||
+                          !isThawable(
+                            group[1].freeze.escrow,
+                            items,
+                            client.clock.now()
+                          )
+                        }
+                        onClick={() => thaw(frozen)}
+                      >
+                        {busy === key ? t("thaw.thawing") : t("thaw.thaw")}
+                      </Button>
+                    </NftRow>
+                  );
+                })}
+              </GroupCard>
+            )}
+          </Hero>
+        </StyledContainer>
+      </Root>
+      <Snackbar
+        open={alertState.open}
+        autoHideDuration={6000}
+        onClose={() => setAlertState({ ...alertState, open: false })}
+      >
+        <Alert
+          onClose={() => setAlertState({ ...alertState, open: false })}
+          severity={alertState.severity}
+        >
+          {alertState.message}
+        </Alert>
+      </Snackbar>
+    </main>
+  );
+};
+
+export default Thaw;
@@ -1,5 +1,6 @@
 import { WalletAdapterNetwork } from "@solana/wallet-adapter-base";
-import { clusterApiUrl, PublicKey } from "@solana/web3.js";
+import { clusterApiUrl, Commitment, PublicKey } from "@solana/web3.js";
+import { PriorityFeeSetting } from "./hooks/priorityFees";
 
 export const network = (process.env.NEXT_PUBLIC_SOLANA_NETWORK ||
   WalletAdapterNetwork.Devnet) as WalletAdapterNetwork;
@@ -7,12 +8,54 @@ export const network = (process.env.NEXT_PUBLIC_SOLANA_NETWORK ||
 export const rpcHost =
   process.env.NEXT_PUBLIC_RPC_HOST || clusterApiUrl(network);
 
+// Ordered failover list, comma separated fallbacks are tried after rpcHost
+export const rpcHosts = [
+  rpcHost,
+  ...(process.env.NEXT_PUBLIC_RPC_FALLBACK_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim())
+    .filter(Boolean),
+];
+
 export const candyMachineId = new PublicKey(
   process.env.NEXT_PUBLIC_CANDY_MACHINE_ID ||
     "CrX78VjrTQBvKQU5nrhLqCXr6uptfTfYqbaHMM1iRp7b"
 );
 
-export const defaultGuardGroup = null; // Use default guards without a group
+// SDK loading the candy machine: "js" (Metaplex JS SDK) or "umi", needed for
+// guards the JS SDK can't parse (allocation, token2022Payment)
+export const candyMachineSdk = (process.env.NEXT_PUBLIC_CANDY_MACHINE_SDK ||
+  "js") as "js" | "umi";
+
+// Group selected on load, the default guards are used when unset
+export const defaultGuardGroup =
+  process.env.NEXT_PUBLIC_DEFAULT_GUARD_GROUP || null;
+
+// Commitment a mint transaction has to reach before it counts as minted
+export const confirmCommitment = (process.env.NEXT_PUBLIC_CONFIRM_COMMITMENT ||
+  "finalized") as Commitment;
+
+// Compute unit price of mint transactions in microlamports, or "auto" to
+// estimate it from recent fees paid on the candy machine
+export const priorityFee: PriorityFeeSetting =
+  process.env.NEXT_PUBLIC_PRIORITY_FEE === "auto"
+    ? "auto"
+    : Number(process.env.NEXT_PUBLIC_PRIORITY_FEE || 0);
+
+// Where wallets get a pass for a gatekeeper network Civic doesn't issue,
+// Civic's own flow is used when unset
+export const gatekeeperPassUrl =
+  process.env.NEXT_PUBLIC_GATEKEEPER_PASS_URL || null;
+
+// Locale used when the browser asks for none with a message catalog
+export const defaultLocale = process.env.NEXT_PUBLIC_DEFAULT_LOCALE || "en";
+
+export const thirdPartySignerApi =
+  process.env.NEXT_PUBLIC_THIRD_PARTY_SIGNER_API || "/api/third-party-signer";
+
+// hCaptcha site key, groups with a third party signer ask for a captcha
+// before minting when set (the API route verifies it with CAPTCHA_SECRET)
+export const captchaSiteKey = process.env.NEXT_PUBLIC_CAPTCHA_SITE_KEY || null;
 
 export const whitelistedWallets = [
   "53VVFtLzzi3nL2p1QF591PAB8rbcbsirYepwUphtHU9Q",
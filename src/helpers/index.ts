@@ -1 +1,3 @@
 export * from "./MerkleTree";
+export * from "./thirdPartySigner";
+export * from "./rpcPool";
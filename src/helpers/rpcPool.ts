@@ -0,0 +1,141 @@
+import { FetchFn } from "@solana/web3.js";
+
+export type EndpointHealth = {
+  endpoint: string;
+  // Consecutive failures, reset by the next success
+  failures: number;
+  // Timestamp until which the endpoint is only used as a last resort
+  unhealthyUntil: number;
+  latency?: number;
+};
+
+export type RpcPoolOptions = {
+  // Injectable, e.g. to run the pool against a mock JSON-RPC server
+  fetch?: FetchFn;
+  sleep?: (ms: number) => Promise<void>;
+  maxRetries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  cooldown?: number;
+};
+
+// Replaying these on every retry would duplicate side effects, so they only
+// fail over once to each endpoint without backing off.
+const nonIdempotentMethods = ["sendTransaction", "requestAirdrop"];
+
+const isFailoverStatus = (status: number) => status === 429 || status >= 500;
+
+const requestMethods = (body: unknown): string[] => {
+  if (typeof body !== "string") return [];
+  try {
+    const payload = JSON.parse(body);
+    return (Array.isArray(payload) ? payload : [payload]).map((x) => x.method);
+  } catch {
+    return [];
+  }
+};
+
+const retryAfterMs = (header?: string | null) => {
+  const seconds = Number(header);
+  return header && !isNaN(seconds) ? seconds * 1000 : undefined;
+};
+
+/**
+ * Creates a `fetch` for `Connection` that spreads JSON-RPC requests over an
+ * ordered list of endpoints. Reads are retried with exponential backoff, any
+ * request fails over to the next healthy endpoint on 429/5xx or network
+ * errors, and failing endpoints are put on a cooldown.
+ */
+export const createRpcPool = (
+  endpoints: string[],
+  {
+    fetch: fetchImpl = (...args: Parameters<typeof fetch>) =>
+      globalThis.fetch(...args),
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    maxRetries = 4,
+    baseDelay = 250,
+    maxDelay = 4000,
+    cooldown = 10_000,
+  }: RpcPoolOptions = {}
+) => {
+  if (!endpoints.length)
+    throw new Error("At least one RPC endpoint is required");
+
+  const health: EndpointHealth[] = endpoints.map((endpoint) => ({
+    endpoint,
+    failures: 0,
+    unhealthyUntil: 0,
+  }));
+
+  // Healthy endpoints first, each group keeping the configured order.
+  const rankedEndpoints = (exclude: EndpointHealth[] = []) => {
+    const now = Date.now();
+    return health
+      .filter((h) => !exclude.includes(h))
+      .sort(
+        (a, b) =>
+          Number(a.unhealthyUntil > now) - Number(b.unhealthyUntil > now)
+      );
+  };
+
+  const markFailure = (h: EndpointHealth, retryAfter?: number) => {
+    h.failures += 1;
+    h.unhealthyUntil =
+      Date.now() +
+      (retryAfter ?? cooldown * Math.min(2 ** (h.failures - 1), 8));
+  };
+
+  const markSuccess = (h: EndpointHealth, latency: number) => {
+    h.failures = 0;
+    h.unhealthyUntil = 0;
+    h.latency = latency;
+  };
+
+  const fetch: FetchFn = async (_url, init) => {
+    const idempotent = !requestMethods(init?.body).some((method) =>
+      nonIdempotentMethods.includes(method)
+    );
+    const attempts = idempotent
+      ? Math.max(maxRetries + 1, endpoints.length)
+      : endpoints.length;
+
+    const tried: EndpointHealth[] = [];
+    let lastResponse: Awaited<ReturnType<FetchFn>>;
+    let lastError: unknown;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      // Back off once every endpoint had its chance in this round.
+      if (tried.length === endpoints.length) {
+        tried.length = 0;
+        await sleep(Math.min(baseDelay * 2 ** (attempt - 1), maxDelay));
+      }
+      const [target] = rankedEndpoints(tried);
+      tried.push(target);
+
+      const startedAt = Date.now();
+      try {
+        const response = await fetchImpl(target.endpoint, init);
+        if (!isFailoverStatus(response.status)) {
+          markSuccess(target, Date.now() - startedAt);
+          return response;
+        }
+        markFailure(target, retryAfterMs(response.headers.get("retry-after")));
+        lastResponse = response;
+        lastError = undefined;
+      } catch (e) {
+        markFailure(target);
+        lastError = e;
+      }
+      console.warn(`RPC request to ${target.endpoint} failed, failing over`);
+    }
+
+    if (lastError) throw lastError;
+    return lastResponse;
+  };
+
+  return {
+    // Used by `Connection` for websocket subscriptions
+    endpoint: endpoints[0],
+    fetch,
+    health: () => health.map((h) => ({ ...h })),
+  };
+};
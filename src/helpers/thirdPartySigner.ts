@@ -0,0 +1,64 @@
+import { IdentitySigner } from "@metaplex-foundation/js";
+import { PublicKey, Transaction } from "@solana/web3.js";
+import { thirdPartySignerApi } from "../config";
+
+export type ThirdPartySignerRequest = {
+  wallet: string;
+  transactions: string[];
+  captchaToken?: string;
+};
+
+export type ThirdPartySignerResponse = {
+  transactions?: string[];
+  error?: string;
+};
+
+export type ThirdPartySignerParams = {
+  // Captchas are single use: every signer request asks for a fresh token.
+  getCaptchaToken?: () => Promise<string | undefined>;
+};
+
+/**
+ * Signer for the thirdPartySigner guard that forwards transactions to the
+ * co-signing API route instead of holding a secret key in the browser.
+ */
+export const remoteThirdPartySigner = (
+  signerKey: PublicKey,
+  walletAddress: PublicKey,
+  params: ThirdPartySignerParams = {}
+): IdentitySigner => {
+  const signAllTransactions = async (transactions: Transaction[]) => {
+    const body: ThirdPartySignerRequest = {
+      wallet: walletAddress.toString(),
+      transactions: transactions.map((tx) =>
+        tx
+          .serialize({ requireAllSignatures: false, verifySignatures: false })
+          .toString("base64")
+      ),
+      captchaToken: await params.getCaptchaToken?.(),
+    };
+    const response = await fetch(thirdPartySignerApi, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json: ThirdPartySignerResponse = await response
+      .json()
+      .catch(() => ({}));
+    if (!response.ok || !json.transactions)
+      throw new Error(json.error || "Third party signer refused to sign.");
+    return json.transactions.map((tx) =>
+      Transaction.from(Buffer.from(tx, "base64"))
+    );
+  };
+
+  return {
+    publicKey: signerKey,
+    signAllTransactions,
+    signTransaction: async (transaction) =>
+      (await signAllTransactions([transaction]))[0],
+    signMessage: () => {
+      throw new Error("Third party signer can only sign transactions.");
+    },
+  };
+};
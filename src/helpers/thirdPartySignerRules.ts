@@ -0,0 +1,40 @@
+import { PublicKey } from "@solana/web3.js";
+import { whitelistedWallets } from "../config";
+import { ThirdPartySignerRequest } from "./thirdPartySigner";
+
+/**
+ * A rule returns an error message to refuse co-signing, or nothing to allow.
+ */
+export type ThirdPartySignerRule = (
+  request: ThirdPartySignerRequest
+) => Promise<string | void> | string | void;
+
+export const captchaRule: ThirdPartySignerRule = async ({ captchaToken }) => {
+  const verifyUrl = process.env.CAPTCHA_VERIFY_URL;
+  const secret = process.env.CAPTCHA_SECRET;
+  if (!verifyUrl || !secret) return;
+  if (!captchaToken) return "Captcha is required.";
+
+  const response = await fetch(verifyUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ secret, response: captchaToken }).toString(),
+  });
+  const { success } = await response.json().catch(() => ({}));
+  if (!success) return "Captcha verification failed.";
+};
+
+export const allowListRule: ThirdPartySignerRule = ({ wallet }) => {
+  if (process.env.THIRD_PARTY_SIGNER_USE_ALLOWLIST !== "true") return;
+  if (!whitelistedWallets.includes(new PublicKey(wallet).toString()))
+    return "Wallet is not allowed to mint.";
+};
+
+// Add project specific checks (KYC, bot scoring, ...) here.
+export const customRules: ThirdPartySignerRule[] = [];
+
+export const thirdPartySignerRules: ThirdPartySignerRule[] = [
+  captchaRule,
+  allowListRule,
+  ...customRules,
+];
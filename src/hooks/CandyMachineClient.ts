@@ -0,0 +1,893 @@
+import {
+  callCandyGuardRouteBuilder,
+  CandyMachine,
+  IdentitySigner,
+  InstructionWithSigners,
+  keypairIdentity,
+  lamports,
+  Metadata,
+  Metaplex,
+  MintFromCandyMachineBuilderContext,
+  mintFromCandyMachineBuilder,
+  Nft,
+  NftWithToken,
+  PublicKey,
+  Sft,
+  SftWithToken,
+  toCandyGuard,
+  toCandyMachine,
+  TransactionBuilder,
+  WalletAdapter,
+  walletAdapterIdentity,
+} from "@metaplex-foundation/js";
+import {
+  BlockhashWithExpiryBlockHeight,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+} from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { isProgrammable } from "@metaplex-foundation/mpl-token-metadata";
+import {
+  createNoopSigner,
+  signerIdentity,
+  Umi,
+} from "@metaplex-foundation/umi";
+import { priorityFee as defaultPriorityFee } from "../config";
+import { MerkleTree } from "../helpers/MerkleTree";
+import { ThirdPartySignerParams } from "../helpers/thirdPartySigner";
+import { ClusterClock, createClusterClock } from "./clusterClock";
+import { decodedError, decodeMintError } from "./errors";
+import {
+  fetchNftFreezeState,
+  thawNftBuilder,
+  unlockFundsBuilder,
+} from "./freeze";
+import {
+  computeUnitLimitInstruction,
+  computeUnitPriceInstruction,
+  computeUnitsFromSimulation,
+  getPriorityFee,
+  maxComputeUnits,
+  PriorityFeeSetting,
+} from "./priorityFees";
+import {
+  fetchTokenStandard,
+  fetchUmiGroupGuards,
+  mintV2Builder,
+  programmableMintComputeUnits,
+  TokenStandardInfo,
+} from "./programmable";
+import { simulateTransactions } from "./simulation";
+import { sendAndConfirmWithRebroadcast } from "./transactions";
+import {
+  AllowLists,
+  GuardGroup,
+  GuardGroupStates,
+  MintTransactionPhase,
+  NftPaymentMintSettings,
+  ParsedPricesForUI,
+  Token,
+} from "./types";
+import { createCandyMachineUmi, toUmiPublicKey } from "./umi";
+import {
+  assertSplTokenGuards,
+  getGroupGuards,
+  guardToPaymentUtil,
+  guardsToMintSettings,
+  invalidateMintLimits,
+  mergeGuards,
+  parseGuardGroup,
+  parseGuardStates,
+} from "./utils";
+
+export type GuardGroups = {
+  default?: GuardGroup;
+  [k: string]: GuardGroup;
+};
+
+export type AllowListProofs = {
+  merkles: { [k: string]: { tree: MerkleTree<string>; proof: Buffer[] } };
+  verifyProof: (merkleRoot: Uint8Array | string, label?: string) => boolean;
+};
+
+export type WalletHoldings = {
+  balance: number;
+  nftHoldings: Metadata[];
+  tokens: Token[];
+};
+
+export type FrozenNft = {
+  nft: Metadata;
+  // Freeze escrow delegated on the NFT, tells which group froze it
+  escrow?: PublicKey;
+};
+
+export type MintOptions = {
+  groupLabel?: string;
+  nftGuards?: NftPaymentMintSettings[];
+  thirdPartySigner?: ThirdPartySignerParams;
+  onProgress?: (index: number, phase: MintTransactionPhase) => void;
+  onVerifyingAllowList?: (verifying: boolean) => void;
+  onPriorityFee?: (fee: {
+    microLamports: number;
+    computeUnits?: number;
+  }) => void;
+};
+
+type MintedNft = Sft | SftWithToken | Nft | NftWithToken;
+
+type MintBuilderContext = Pick<
+  MintFromCandyMachineBuilderContext,
+  "mintSigner" | "tokenAddress"
+>;
+
+// Account a subscription update came from
+export type CandyMachineAccount = "candyMachine" | "candyGuard";
+
+export type CandyMachineItems = {
+  available: number;
+  remaining: number;
+  redeemed: number;
+};
+
+export type MintBuilders = {
+  transactionBuilders: TransactionBuilder<MintBuilderContext>[];
+  // Stores the allowList proof, only when it isn't on-chain yet
+  allowListRouteBuilder?: TransactionBuilder;
+  // Charged instead of failing by the botTax guard
+  botTaxLamports?: number;
+};
+
+const allowListStrings = (list: AllowLists[number]["list"]) =>
+  list.map((item) =>
+    typeof item === "string" ? item : Buffer.from(item).toString("hex")
+  );
+
+/**
+ * Candy machine logic without any React dependency: fetching, guard parsing,
+ * prices, eligibility and minting. Subclasses load the candy machine (`M`)
+ * with either SDK and build its mint transactions, signing and sending is
+ * shared. `useCandyMachineV3` wraps it for the UI, scripts can use it
+ * directly with a keypair.
+ */
+export abstract class BaseCandyMachineClient<M> {
+  readonly mx: Metaplex;
+  // pNFT minting and guards the JS SDK doesn't know go through Umi.
+  readonly umi: Umi;
+  readonly candyMachineId: PublicKey;
+  // Cluster time the date guards are checked against
+  readonly clock: ClusterClock;
+  candyMachine: M | null = null;
+  tokenStandard: TokenStandardInfo | null = null;
+  walletAddress: PublicKey | null = null;
+
+  constructor(
+    readonly connection: Connection,
+    candyMachineId: PublicKey | string,
+    private readonly options: {
+      allowLists?: AllowLists;
+      priorityFee?: PriorityFeeSetting;
+    } = {}
+  ) {
+    this.mx = Metaplex.make(connection);
+    this.umi = createCandyMachineUmi(connection);
+    this.clock = createClusterClock(connection);
+    this.candyMachineId = new PublicKey(candyMachineId);
+  }
+
+  /** Signs mints with a keypair (scripts) or a wallet adapter (browser). */
+  setIdentity(signer: Keypair | WalletAdapter) {
+    this.mx.use(
+      signer instanceof Keypair
+        ? keypairIdentity(signer)
+        : walletAdapterIdentity(signer)
+    );
+    // Umi only builds instructions, the JS SDK identity signs them.
+    this.umi.use(
+      signerIdentity(createNoopSigner(toUmiPublicKey(signer.publicKey)))
+    );
+    this.walletAddress = signer.publicKey;
+  }
+
+  abstract fetchCandyMachine(): Promise<M>;
+
+  /**
+   * Decodes candy machine and candy guard account changes into
+   * `candyMachine`, `account` being the one that changed. Returns a function
+   * removing the subscriptions.
+   */
+  abstract subscribe(
+    onChange: (candyMachine: M, account: CandyMachineAccount) => void
+  ): () => void;
+
+  abstract get candyGuardAddress(): PublicKey | null;
+
+  // Verified collection of the minted NFTs
+  abstract get collectionMint(): PublicKey | null;
+
+  abstract getItems(candyMachine: M): CandyMachineItems;
+
+  abstract fetchGuardGroups(args: {
+    walletAddress: PublicKey;
+    nftHoldings: Metadata[];
+    verifyProof: AllowListProofs["verifyProof"];
+  }): Promise<GuardGroups>;
+
+  /**
+   * Mint transactions for `quantity` items of a group, plus the allowList
+   * route storing the proof when it isn't on-chain yet.
+   */
+  protected abstract createMintBuilders(
+    quantity: number,
+    groupLabel: string,
+    opts: MintOptions
+  ): Promise<MintBuilders>;
+
+  get isProgrammable() {
+    return (
+      !!this.tokenStandard && isProgrammable(this.tokenStandard.tokenStandard)
+    );
+  }
+
+  getAllowListProofs(walletAddress: PublicKey | null): AllowListProofs {
+    const allowLists = this.options.allowLists;
+    if (!allowLists?.length) return { merkles: {}, verifyProof: () => true };
+    if (!walletAddress) return { merkles: {}, verifyProof: () => false };
+
+    const leaf = walletAddress.toString();
+    const merkles: AllowListProofs["merkles"] = allowLists.reduce(
+      (prev, { groupLabel, list }) => {
+        const stringList = allowListStrings(list);
+        const tree = new MerkleTree<string>(stringList);
+        const leafIndex = stringList.indexOf(leaf);
+        const proof = leafIndex !== -1 ? tree.getProof(leafIndex) : [];
+        return Object.assign(prev, { [groupLabel]: { tree, proof } });
+      },
+      {}
+    );
+
+    const verifyProof = (
+      merkleRoot: Uint8Array | string,
+      label = "default"
+    ) => {
+      const merkle = merkles[label];
+      if (!merkle) return false;
+      const allowList = allowLists.find((al) => al.groupLabel === label);
+      const leafIndex = allowList
+        ? allowListStrings(allowList.list).indexOf(leaf)
+        : -1;
+      if (leafIndex === -1) return false;
+      return merkle.tree.verifyProof(
+        leafIndex,
+        merkle.proof,
+        Buffer.from(merkleRoot)
+      );
+    };
+
+    return { merkles, verifyProof };
+  }
+
+  async fetchWalletHoldings(walletAddress: PublicKey): Promise<WalletHoldings> {
+    const [balance, nftHoldings, ...tokenAccounts] = await Promise.all([
+      this.mx
+        .rpc()
+        .getBalance(walletAddress)
+        .then((x) => x.basisPoints.toNumber()),
+      this.mx
+        .nfts()
+        .findAllByOwner({ owner: walletAddress })
+        .then((x) => x.filter((a) => a.model === "metadata") as Metadata[]),
+      ...[TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+        this.connection
+          .getParsedTokenAccountsByOwner(walletAddress, { programId })
+          .then(({ value }) => ({ programId, value }))
+      ),
+    ]);
+
+    // A wallet can hold several accounts of one mint, balances add up.
+    const tokens: Token[] = [];
+    tokenAccounts.forEach(({ programId, value }) =>
+      value.forEach(({ account }) => {
+        const { mint, tokenAmount } = account.data.parsed.info;
+        const amount = Number(tokenAmount.amount);
+        if (!amount) return;
+        const token = tokens.find((x) => x.mint.toString() === mint);
+        if (token) token.balance += amount;
+        else
+          tokens.push({
+            mint: new PublicKey(mint),
+            balance: amount,
+            decimals: tokenAmount.decimals,
+            programId,
+          });
+      })
+    );
+    return { balance, nftHoldings, tokens };
+  }
+
+  getPrices(guardGroups: GuardGroups): {
+    [k: string]: ParsedPricesForUI;
+  } {
+    return Object.entries(guardGroups).reduce(
+      (groupPayments, [label, guards]) =>
+        Object.assign(groupPayments, { [label]: guardToPaymentUtil(guards) }),
+      {}
+    );
+  }
+
+  getGuardStates(
+    guardGroups: GuardGroups,
+    {
+      walletAddress,
+      tokenHoldings,
+      balance,
+    }: { walletAddress: PublicKey; tokenHoldings: Token[]; balance: number }
+  ): { [k: string]: GuardGroupStates } {
+    return Object.entries(guardGroups).reduce(
+      (groupStates, [label, guards]) =>
+        Object.assign(groupStates, {
+          [label]: parseGuardStates({
+            guards,
+            itemsMinted: this.candyMachine
+              ? this.getItems(this.candyMachine).redeemed
+              : 0,
+            walletAddress,
+            tokenHoldings,
+            balance,
+            now: this.clock.now(),
+          }),
+        }),
+      {}
+    );
+  }
+
+  estimatePriorityFee() {
+    if (!this.candyMachine) throw new Error("Candy Machine not loaded yet!");
+    return getPriorityFee(
+      this.connection,
+      [this.candyMachineId, this.candyGuardAddress],
+      this.options.priorityFee ?? defaultPriorityFee
+    );
+  }
+
+  /**
+   * NFTs of the candy machine collection among `nftHoldings` that are still
+   * frozen by a freeze payment guard, with the escrow holding each.
+   */
+  async fetchFrozenNfts(
+    nftHoldings: Metadata[],
+    owner: PublicKey
+  ): Promise<FrozenNft[]> {
+    const collectionMint = this.collectionMint;
+    if (!collectionMint) throw new Error("Candy Machine not loaded yet!");
+    const nfts = nftHoldings.filter(
+      (x) =>
+        x.collection?.verified && x.collection.address.equals(collectionMint)
+    );
+    const states = await Promise.all(
+      nfts.map((nft) =>
+        fetchNftFreezeState(this.connection, nft, owner).catch((e) => {
+          console.error("Failed to read frozen state", e);
+          return { frozen: false, delegate: undefined };
+        })
+      )
+    );
+    return nfts.flatMap((nft, i) =>
+      states[i].frozen ? [{ nft, escrow: states[i].delegate }] : []
+    );
+  }
+
+  private freezeGuard(groupLabel: string, guards: GuardGroup) {
+    if (!this.candyMachine) throw new Error("Candy Machine not loaded yet!");
+    if (!guards.freeze)
+      throw new Error(`Guard group "${groupLabel}" has no freeze payment.`);
+    return {
+      candyMachine: {
+        address: this.candyMachineId,
+        candyGuard: { address: this.candyGuardAddress },
+      },
+      label: groupLabel,
+      freeze: guards.freeze,
+    };
+  }
+
+  /** Thaws an NFT minted from a freeze payment group, anyone can send it. */
+  async thaw(
+    groupLabel: string,
+    guards: GuardGroup,
+    nft: Metadata,
+    owner: PublicKey = this.walletAddress
+  ) {
+    const { response } = await thawNftBuilder(this.mx, this.umi, {
+      ...this.freezeGuard(groupLabel, guards),
+      nft,
+      owner,
+    }).sendAndConfirm(this.mx);
+    return response.signature;
+  }
+
+  /**
+   * Releases the escrowed payments of a freeze payment group once every NFT
+   * is thawed. The identity has to be the candy guard authority.
+   */
+  async unlockFunds(groupLabel: string, guards: GuardGroup) {
+    const { response } = await unlockFundsBuilder(
+      this.mx,
+      this.umi,
+      this.freezeGuard(groupLabel, guards)
+    ).sendAndConfirm(this.mx);
+    return response.signature;
+  }
+
+  /**
+   * Mints `quantity` items from a guard group with the current identity in a
+   * single signing round, after a first one storing the allowList proof when
+   * needed. Returns the NFTs that landed; only throws when none of them did.
+   */
+  async mint(quantity: number = 1, opts: MintOptions = {}) {
+    const { mx, connection } = this;
+    const walletAddress = this.walletAddress;
+    const groupLabel = opts.groupLabel || "default";
+    const onProgress = opts.onProgress || (() => {});
+    if (!this.candyMachine) throw new Error("Candy Machine not loaded yet!");
+    if (!walletAddress) throw new Error("Wallet public key not available!");
+
+    const programmable = this.isProgrammable;
+    const { transactionBuilders, allowListRouteBuilder, botTaxLamports } =
+      await this.createMintBuilders(quantity, groupLabel, opts);
+    const allBuilders: TransactionBuilder[] = allowListRouteBuilder
+      ? [allowListRouteBuilder, ...transactionBuilders]
+      : transactionBuilders;
+
+    // Builds and partially signs transactions, returning the identity
+    // signers (wallet, third party signer) that still have to sign them.
+    const prepareTransactions = (
+      builders: TransactionBuilder[],
+      blockhash: BlockhashWithExpiryBlockHeight
+    ) => {
+      const transactions = builders.map((t) => t.toTransaction(blockhash));
+      const signers: { [k: string]: IdentitySigner } = {};
+      transactions.forEach((tx, i) => {
+        tx.feePayer = walletAddress;
+        tx.recentBlockhash = blockhash.blockhash;
+        builders[i].getSigners().forEach((s) => {
+          if ("signAllTransactions" in s) signers[s.publicKey.toString()] = s;
+          else if ("secretKey" in s) tx.partialSign(s);
+        });
+      });
+      return { transactions, signers };
+    };
+
+    // One wallet prompt for every transaction in the batch. Co-signers
+    // (third party signer) go first so the wallet signs last.
+    const signTransactions = async (
+      transactions: Transaction[],
+      signers: { [k: string]: IdentitySigner }
+    ) => {
+      const orderedSigners = Object.values(signers).sort(
+        (a, b) =>
+          Number(a.publicKey.equals(walletAddress)) -
+          Number(b.publicKey.equals(walletAddress))
+      );
+      for (let signer of orderedSigners) {
+        transactions = await signer.signAllTransactions(transactions);
+      }
+      return transactions;
+    };
+
+    const sendMint = async (
+      tx: Transaction,
+      i: number,
+      blockhash: BlockhashWithExpiryBlockHeight
+    ) => {
+      let signature: string;
+      try {
+        signature = await sendAndConfirmWithRebroadcast(
+          connection,
+          tx,
+          blockhash,
+          {
+            onSent: (sent) => {
+              signature = sent;
+              onProgress(i, { phase: "sent", signature });
+            },
+          }
+        );
+        onProgress(i, { phase: "confirmed", signature });
+      } catch (e) {
+        onProgress(i, {
+          phase: "failed",
+          error: decodeMintError(e),
+          signature,
+        });
+        throw e;
+      }
+      console.log(`Mint ${i + 1}/${quantity} landed:`, signature);
+
+      const context = transactionBuilders[i].getContext();
+      const nft = await mx
+        .nfts()
+        .findByMint({
+          mintAddress: context.mintSigner.publicKey,
+          tokenAddress: context.tokenAddress,
+        })
+        .catch((e) => {
+          console.error("Failed to fetch minted nft", e);
+          return null;
+        });
+      if (nft) onProgress(i, { phase: "fetched", signature });
+      return nft;
+    };
+
+    // Limits are set once per builder and updated in place, so re-signed
+    // mints keep the last one.
+    const computeUnitLimits = new Map<
+      TransactionBuilder,
+      InstructionWithSigners
+    >();
+    const setComputeUnitLimit = (
+      builder: TransactionBuilder,
+      units: number
+    ) => {
+      const limit = computeUnitLimitInstruction(units);
+      const current = computeUnitLimits.get(builder);
+      if (current) {
+        current.instruction = limit.instruction;
+      } else {
+        builder.prepend(limit);
+        computeUnitLimits.set(builder, limit);
+      }
+    };
+
+    const microLamports = await this.estimatePriorityFee();
+    opts.onPriorityFee?.({ microLamports });
+    if (microLamports)
+      allBuilders.forEach((builder) =>
+        builder.prepend(computeUnitPriceInstruction(microLamports))
+      );
+
+    // Simulated before the wallet prompt so failing guards are never signed
+    // (or bot taxed). Each transaction then gets a limit of the compute units
+    // it used, whatever the price. Returns those limits, or nothing when the
+    // RPC doesn't report the units consumed.
+    const simulate = async (
+      builders: TransactionBuilder[],
+      blockhash: BlockhashWithExpiryBlockHeight
+    ) => {
+      const { transactions } = prepareTransactions(builders, blockhash);
+      const { diagnostics, unitsConsumed } = await simulateTransactions(
+        connection,
+        transactions
+      );
+      if (diagnostics.length) {
+        console.error("Mint simulation failed:", diagnostics);
+        const [{ error }] = diagnostics;
+        throw decodedError(
+          `Mint simulation failed: ${error.name || error.messageKey}`,
+          {
+            ...error,
+            botTax: botTaxLamports
+              ? botTaxLamports / LAMPORTS_PER_SOL
+              : undefined,
+          }
+        );
+      }
+      if (!unitsConsumed.every(Boolean)) return undefined;
+      const computeUnits = unitsConsumed.map(computeUnitsFromSimulation);
+      builders.forEach((builder, i) =>
+        setComputeUnitLimit(builder, computeUnits[i])
+      );
+      return computeUnits;
+    };
+
+    // Mints can only be simulated once the allowList proof exists on-chain,
+    // so the route is signed and confirmed on its own first.
+    if (allowListRouteBuilder) {
+      const routeBlockhash = await mx.rpc().getLatestBlockhash();
+      await simulate([allowListRouteBuilder], routeBlockhash);
+      const route = prepareTransactions(
+        [allowListRouteBuilder],
+        routeBlockhash
+      );
+      const [allowListRouteTx] = await signTransactions(
+        route.transactions,
+        route.signers
+      );
+      opts.onVerifyingAllowList?.(true);
+      try {
+        await sendAndConfirmWithRebroadcast(
+          connection,
+          allowListRouteTx,
+          routeBlockhash,
+          { commitment: "confirmed" }
+        );
+      } finally {
+        opts.onVerifyingAllowList?.(false);
+      }
+    }
+
+    // pNFT mints need more than the default 200k units. They get all of it
+    // while simulated, a fixed limit when the units used are unknown.
+    if (programmable)
+      transactionBuilders.forEach((builder) =>
+        setComputeUnitLimit(builder, maxComputeUnits)
+      );
+    const blockhash = await mx.rpc().getLatestBlockhash();
+    const computeUnits = await simulate(transactionBuilders, blockhash);
+    if (computeUnits)
+      opts.onPriorityFee?.({ microLamports, computeUnits: computeUnits[0] });
+    else if (programmable)
+      transactionBuilders.forEach((builder) =>
+        setComputeUnitLimit(builder, programmableMintComputeUnits)
+      );
+    const { transactions, signers } = prepareTransactions(
+      transactionBuilders,
+      blockhash
+    );
+
+    transactionBuilders.forEach((_, i) =>
+      onProgress(i, { phase: "awaiting-signature" })
+    );
+    const signedTransactions = await signTransactions(transactions, signers);
+
+    const output = await Promise.allSettled(
+      signedTransactions.map((tx, i) => sendMint(tx, i, blockhash))
+    );
+
+    // Mints whose blockhash provably expired without landing are signed
+    // again with a fresh one. They keep the same mint keypair, so a mint
+    // can never land twice even if an old copy was still in flight.
+    const expired = output.flatMap((result, i) =>
+      result.status === "rejected" &&
+      result.reason instanceof TransactionExpiredBlockheightExceededError
+        ? [i]
+        : []
+    );
+    if (expired.length) {
+      console.warn(`Re-signing ${expired.length} expired mint(s)`);
+      const freshBlockhash = await mx.rpc().getLatestBlockhash();
+      const retry = prepareTransactions(
+        expired.map((i) => transactionBuilders[i]),
+        freshBlockhash
+      );
+      expired.forEach((i) => onProgress(i, { phase: "awaiting-signature" }));
+      const resigned = await signTransactions(
+        retry.transactions,
+        retry.signers
+      );
+      const retried = await Promise.allSettled(
+        resigned.map((tx, j) => sendMint(tx, expired[j], freshBlockhash))
+      );
+      expired.forEach((i, j) => (output[i] = retried[j]));
+    }
+
+    const failures: { index: number; error: unknown }[] = [];
+    const nfts: MintedNft[] = output.map((result, i) => {
+      if (result.status === "fulfilled") return result.value;
+      console.error(`Mint ${i + 1}/${output.length} failed:`, result.reason);
+      failures.push({ index: i, error: result.reason });
+      return null;
+    });
+
+    // Only surface an error when nothing landed; partial mints are returned.
+    if (failures.length === output.length) throw failures[0].error;
+    // Counters moved on-chain, the next guard parse re-reads the PDA.
+    invalidateMintLimits(walletAddress);
+    return nfts.filter((a) => a);
+  }
+}
+
+/** Candy machine loaded and minted with the Metaplex JS SDK. */
+export class CandyMachineClient extends BaseCandyMachineClient<CandyMachine> {
+  async fetchCandyMachine() {
+    [this.candyMachine, this.tokenStandard] = await Promise.all([
+      this.mx.candyMachines().findByAddress({ address: this.candyMachineId }),
+      fetchTokenStandard(this.umi, this.connection, this.candyMachineId),
+    ]);
+    return this.candyMachine;
+  }
+
+  subscribe(
+    onChange: (candyMachine: CandyMachine, account: CandyMachineAccount) => void
+  ) {
+    if (!this.candyMachine) throw new Error("Candy Machine not loaded yet!");
+    const subscriptions: number[] = [];
+
+    const machineKey = this.candyMachine.address;
+    subscriptions.push(
+      this.connection.onAccountChange(machineKey, (accountInfo) => {
+        try {
+          this.candyMachine = toCandyMachine(
+            {
+              ...accountInfo,
+              publicKey: machineKey,
+              lamports: lamports(accountInfo.lamports),
+            },
+            this.candyMachine?.candyGuard ?? null
+          );
+          onChange(this.candyMachine, "candyMachine");
+        } catch (e) {
+          console.error("Failed to decode candy machine update", e);
+        }
+      })
+    );
+
+    if (this.candyMachine.candyGuard) {
+      const guardKey = this.candyMachine.candyGuard.address;
+      subscriptions.push(
+        this.connection.onAccountChange(guardKey, (accountInfo) => {
+          if (!this.candyMachine) return;
+          try {
+            this.candyMachine = {
+              ...this.candyMachine,
+              candyGuard: toCandyGuard(
+                {
+                  ...accountInfo,
+                  publicKey: guardKey,
+                  lamports: lamports(accountInfo.lamports),
+                },
+                this.mx
+              ),
+            };
+            onChange(this.candyMachine, "candyGuard");
+          } catch (e) {
+            console.error("Failed to decode candy guard update", e);
+          }
+        })
+      );
+    }
+
+    return () =>
+      subscriptions.forEach((id) =>
+        this.connection
+          .removeAccountChangeListener(id)
+          .catch((e) => console.error("Failed to unsubscribe", e))
+      );
+  }
+
+  get candyGuardAddress() {
+    return this.candyMachine?.candyGuard?.address ?? null;
+  }
+
+  get collectionMint() {
+    return this.candyMachine?.collectionMintAddress ?? null;
+  }
+
+  getItems(candyMachine: CandyMachine): CandyMachineItems {
+    return {
+      available: candyMachine.itemsAvailable.toNumber(),
+      remaining: candyMachine.itemsRemaining.toNumber(),
+      redeemed: candyMachine.itemsMinted.toNumber(),
+    };
+  }
+
+  async fetchGuardGroups({
+    walletAddress,
+    nftHoldings,
+    verifyProof,
+  }: {
+    walletAddress: PublicKey;
+    nftHoldings: Metadata[];
+    verifyProof: AllowListProofs["verifyProof"];
+  }): Promise<GuardGroups> {
+    const candyMachine = this.candyMachine;
+    if (!candyMachine) throw new Error("Candy Machine not loaded yet!");
+    const guards: GuardGroups = {
+      default: await parseGuardGroup(
+        {
+          guards: candyMachine.candyGuard.guards,
+          candyMachine,
+          nftHoldings,
+          verifyProof,
+          walletAddress,
+          now: this.clock.now(),
+        },
+        this.mx,
+        this.umi
+      ),
+    };
+    await Promise.all(
+      candyMachine.candyGuard.groups.map(async (x) => {
+        guards[x.label] = await parseGuardGroup(
+          {
+            guards: mergeGuards([candyMachine.candyGuard.guards, x.guards]),
+            label: x.label,
+            candyMachine,
+            nftHoldings,
+            verifyProof,
+            walletAddress,
+            now: this.clock.now(),
+          },
+          this.mx,
+          this.umi
+        );
+      })
+    );
+    return guards;
+  }
+
+  protected async createMintBuilders(
+    quantity: number,
+    groupLabel: string,
+    opts: MintOptions
+  ): Promise<MintBuilders> {
+    const { mx } = this;
+    const candyMachine = this.candyMachine;
+    const walletAddress = this.walletAddress;
+    const { merkles } = this.getAllowListProofs(walletAddress);
+    const groupGuards = getGroupGuards(candyMachine, groupLabel);
+    await assertSplTokenGuards(mx, groupGuards);
+    const transactionBuilders: TransactionBuilder<MintBuilderContext>[] = [];
+
+    // The allowList proof has to be stored on-chain once per wallet and
+    // group before any mint from that group is accepted.
+    let allowListRouteBuilder: TransactionBuilder;
+    if (groupGuards.allowList) {
+      const merkleProof = merkles[groupLabel]?.proof;
+      if (!merkleProof?.length)
+        throw new Error("Wallet is not on the allow list for this group.");
+      const proofPda = mx.candyMachines().pdas().merkleProof({
+        merkleRoot: groupGuards.allowList.merkleRoot,
+        user: walletAddress,
+        candyMachine: candyMachine.address,
+        candyGuard: candyMachine.candyGuard.address,
+      });
+      if (!(await mx.rpc().accountExists(proofPda)))
+        allowListRouteBuilder = callCandyGuardRouteBuilder(mx, {
+          candyMachine,
+          guard: "allowList",
+          group: groupLabel === "default" ? null : groupLabel,
+          settings: {
+            path: "proof",
+            merkleProof,
+          },
+        });
+    }
+
+    // pNFTs are minted through `mintV2`, which the JS SDK doesn't have.
+    const umiGuards = this.isProgrammable
+      ? await fetchUmiGroupGuards(this.umi, candyMachine, groupLabel)
+      : null;
+
+    for (let index = 0; index < quantity; index++) {
+      const mintSettings = guardsToMintSettings({
+        candyMachine,
+        label: groupLabel,
+        walletAddress,
+        nftGuards: opts.nftGuards?.[index],
+        proof: merkles[groupLabel]?.proof,
+        thirdPartySignerParams: opts.thirdPartySigner,
+      });
+      transactionBuilders.push(
+        umiGuards
+          ? await mintV2Builder(mx, this.umi, {
+              candyMachine: candyMachine.address,
+              candyGuard: candyMachine.candyGuard.address,
+              collectionMint: candyMachine.collectionMintAddress,
+              collectionUpdateAuthority: candyMachine.authorityAddress,
+              label: groupLabel,
+              guards: umiGuards,
+              walletAddress,
+              tokenStandard: this.tokenStandard.tokenStandard,
+              ruleSet: this.tokenStandard.ruleSet,
+              mintSettings,
+            })
+          : await mintFromCandyMachineBuilder(mx, {
+              candyMachine,
+              collectionUpdateAuthority: candyMachine.authorityAddress,
+              group: groupLabel === "default" ? null : groupLabel,
+              guards: mintSettings,
+            })
+      );
+    }
+
+    return {
+      transactionBuilders,
+      allowListRouteBuilder,
+      botTaxLamports: groupGuards.botTax?.lamports.basisPoints.toNumber(),
+    };
+  }
+}
@@ -0,0 +1,266 @@
+import {
+  Metadata,
+  PublicKey,
+  TransactionBuilder,
+} from "@metaplex-foundation/js";
+import {
+  CandyGuard,
+  CandyMachine,
+  deserializeCandyGuard,
+  deserializeCandyMachine,
+  fetchCandyMachine,
+  findAllowListProofPda,
+  getCandyMachineRuleSet,
+  route,
+  safeFetchCandyGuard,
+} from "@metaplex-foundation/mpl-candy-machine";
+import { isProgrammable } from "@metaplex-foundation/mpl-token-metadata";
+import { isSome, Option, unwrapOption } from "@metaplex-foundation/umi";
+import {
+  AllowListProofs,
+  BaseCandyMachineClient,
+  CandyMachineAccount,
+  CandyMachineItems,
+  GuardGroups,
+  MintBuilders,
+  MintOptions,
+} from "./CandyMachineClient";
+import { mintV2Builder } from "./programmable";
+import {
+  toTransactionBuilder,
+  toUmiAccount,
+  toUmiPublicKey,
+  toWeb3PublicKey,
+} from "./umi";
+import {
+  mergeUmiGuards,
+  parseUmiGuardGroup,
+  umiGuardsToMintSettings,
+} from "./umiGuards";
+import { assertSplTokenGuards } from "./utils";
+
+export type UmiCandyMachine = {
+  candyMachine: CandyMachine;
+  candyGuard: CandyGuard;
+};
+
+/**
+ * Candy machine loaded with Umi and mpl-candy-machine v6, which parses the
+ * guards the JS SDK doesn't know (allocation, token2022Payment). Every item
+ * is minted with `mintV2`.
+ */
+export class UmiCandyMachineClient extends BaseCandyMachineClient<UmiCandyMachine> {
+  async fetchCandyMachine() {
+    const candyMachine = await fetchCandyMachine(
+      this.umi,
+      toUmiPublicKey(this.candyMachineId)
+    );
+    const candyGuard = await safeFetchCandyGuard(
+      this.umi,
+      candyMachine.mintAuthority
+    );
+    if (!candyGuard)
+      throw new Error("Candy Machine has no candy guard attached.");
+
+    const ruleSet = isProgrammable(candyMachine.tokenStandard)
+      ? unwrapOption(
+          await getCandyMachineRuleSet(this.umi, candyMachine.publicKey)
+        )
+      : null;
+    this.tokenStandard = {
+      tokenStandard: candyMachine.tokenStandard,
+      ruleSet: ruleSet ? toWeb3PublicKey(ruleSet) : undefined,
+    };
+    this.candyMachine = { candyMachine, candyGuard };
+    return this.candyMachine;
+  }
+
+  subscribe(
+    onChange: (
+      candyMachine: UmiCandyMachine,
+      account: CandyMachineAccount
+    ) => void
+  ) {
+    if (!this.candyMachine) throw new Error("Candy Machine not loaded yet!");
+    const machineKey = this.candyMachineId;
+    const guardKey = this.candyGuardAddress;
+
+    const subscriptions = [
+      this.connection.onAccountChange(machineKey, (accountInfo) => {
+        if (!this.candyMachine) return;
+        try {
+          this.candyMachine = {
+            ...this.candyMachine,
+            candyMachine: deserializeCandyMachine(
+              toUmiAccount(machineKey, accountInfo)
+            ),
+          };
+          onChange(this.candyMachine, "candyMachine");
+        } catch (e) {
+          console.error("Failed to decode candy machine update", e);
+        }
+      }),
+      this.connection.onAccountChange(guardKey, (accountInfo) => {
+        if (!this.candyMachine) return;
+        try {
+          this.candyMachine = {
+            ...this.candyMachine,
+            candyGuard: deserializeCandyGuard(
+              this.umi,
+              toUmiAccount(guardKey, accountInfo)
+            ),
+          };
+          onChange(this.candyMachine, "candyGuard");
+        } catch (e) {
+          console.error("Failed to decode candy guard update", e);
+        }
+      }),
+    ];
+
+    return () =>
+      subscriptions.forEach((id) =>
+        this.connection
+          .removeAccountChangeListener(id)
+          .catch((e) => console.error("Failed to unsubscribe", e))
+      );
+  }
+
+  get candyGuardAddress() {
+    return this.candyMachine
+      ? toWeb3PublicKey(this.candyMachine.candyGuard.publicKey)
+      : null;
+  }
+
+  get collectionMint() {
+    return this.candyMachine
+      ? toWeb3PublicKey(this.candyMachine.candyMachine.collectionMint)
+      : null;
+  }
+
+  getItems({ candyMachine }: UmiCandyMachine): CandyMachineItems {
+    const available = Number(candyMachine.data.itemsAvailable);
+    const redeemed = Number(candyMachine.itemsRedeemed);
+    return { available, remaining: available - redeemed, redeemed };
+  }
+
+  private get guardAccounts() {
+    return {
+      address: this.candyMachineId,
+      candyGuard: { address: this.candyGuardAddress },
+    };
+  }
+
+  async fetchGuardGroups({
+    walletAddress,
+    nftHoldings,
+    verifyProof,
+  }: {
+    walletAddress: PublicKey;
+    nftHoldings: Metadata[];
+    verifyProof: AllowListProofs["verifyProof"];
+  }): Promise<GuardGroups> {
+    if (!this.candyMachine) throw new Error("Candy Machine not loaded yet!");
+    const { candyGuard } = this.candyMachine;
+    const labels = ["default", ...candyGuard.groups.map((x) => x.label)];
+    const guards: GuardGroups = {};
+    await Promise.all(
+      labels.map(async (label) => {
+        guards[label] = await parseUmiGuardGroup(
+          {
+            guards: mergeUmiGuards(candyGuard, label),
+            label,
+            candyMachine: this.guardAccounts,
+            nftHoldings,
+            verifyProof,
+            walletAddress,
+            now: this.clock.now(),
+          },
+          this.mx,
+          this.umi
+        );
+      })
+    );
+    return guards;
+  }
+
+  protected async createMintBuilders(
+    quantity: number,
+    groupLabel: string,
+    opts: MintOptions
+  ): Promise<MintBuilders> {
+    const { mx, umi } = this;
+    const { candyMachine, candyGuard } = this.candyMachine;
+    const walletAddress = this.walletAddress;
+    const { merkles } = this.getAllowListProofs(walletAddress);
+    const guards = mergeUmiGuards(candyGuard, groupLabel);
+    const group = groupLabel === "default" ? null : groupLabel;
+
+    const tokenMint = (guard: Option<{ mint: string }>) =>
+      isSome(guard) ? { mint: toWeb3PublicKey(guard.value.mint) } : undefined;
+    await assertSplTokenGuards(mx, {
+      tokenPayment: tokenMint(guards.tokenPayment),
+      tokenBurn: tokenMint(guards.tokenBurn),
+      tokenGate: tokenMint(guards.tokenGate),
+    });
+
+    // The allowList proof has to be stored on-chain once per wallet and
+    // group before any mint from that group is accepted.
+    let allowListRouteBuilder: TransactionBuilder;
+    if (isSome(guards.allowList)) {
+      const merkleProof = merkles[groupLabel]?.proof;
+      if (!merkleProof?.length)
+        throw new Error("Wallet is not on the allow list for this group.");
+      const { merkleRoot } = guards.allowList.value;
+      const [proofPda] = findAllowListProofPda(umi, {
+        merkleRoot,
+        user: toUmiPublicKey(walletAddress),
+        candyMachine: candyMachine.publicKey,
+        candyGuard: candyGuard.publicKey,
+      });
+      if (!(await umi.rpc.accountExists(proofPda)))
+        allowListRouteBuilder = toTransactionBuilder(
+          route(umi, {
+            candyMachine: candyMachine.publicKey,
+            candyGuard: candyGuard.publicKey,
+            guard: "allowList",
+            group,
+            routeArgs: { path: "proof", merkleRoot, merkleProof },
+          }),
+          [mx.identity()],
+          "callGuardRoute"
+        ).setFeePayer(mx.identity());
+    }
+
+    const transactionBuilders: MintBuilders["transactionBuilders"] = [];
+    for (let index = 0; index < quantity; index++) {
+      transactionBuilders.push(
+        await mintV2Builder(mx, umi, {
+          candyMachine: this.candyMachineId,
+          candyGuard: this.candyGuardAddress,
+          collectionMint: toWeb3PublicKey(candyMachine.collectionMint),
+          collectionUpdateAuthority: toWeb3PublicKey(candyMachine.authority),
+          label: groupLabel,
+          guards,
+          walletAddress,
+          tokenStandard: candyMachine.tokenStandard,
+          ruleSet: this.tokenStandard?.ruleSet,
+          mintSettings: umiGuardsToMintSettings({
+            guards,
+            walletAddress,
+            nftGuards: opts.nftGuards?.[index],
+            proof: merkles[groupLabel]?.proof,
+            thirdPartySignerParams: opts.thirdPartySigner,
+          }),
+        })
+      );
+    }
+
+    return {
+      transactionBuilders,
+      allowListRouteBuilder,
+      botTaxLamports: isSome(guards.botTax)
+        ? Number(guards.botTax.value.lamports.basisPoints)
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+type CacheEntry<T> = { value: Promise<T>; expiresAt: number };
+
+/**
+ * Promise cache whose entries expire after `ttl` ms. Concurrent reads of the
+ * same key share one load, and failed loads are dropped so the next read
+ * retries.
+ */
+export const createTtlCache = <T>(ttl: number) => {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  const get = (key: string, load: () => Promise<T>): Promise<T> => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) return entry.value;
+
+    const value = load();
+    entries.set(key, { value, expiresAt: Date.now() + ttl });
+    value.catch(() => {
+      if (entries.get(key)?.value === value) entries.delete(key);
+    });
+    return value;
+  };
+
+  const invalidate = (matches: (key: string) => boolean = () => true) => {
+    Array.from(entries.keys()).forEach((key) => {
+      if (matches(key)) entries.delete(key);
+    });
+  };
+
+  return { get, invalidate };
+};
@@ -0,0 +1,88 @@
+import { Connection } from "@solana/web3.js";
+
+export type ClusterClockOptions = {
+  // Confirmed slots whose block time is sampled on each sync
+  samples?: number;
+  // Expected slot duration, ages a sampled block time up to the tip
+  slotMs?: number;
+};
+
+export type ClusterClock = ReturnType<typeof createClusterClock>;
+
+// Longest setTimeout delay, longer ones overflow (~24.8 days) and fire at
+// once. Timers for dates further away have to be scheduled again.
+export const maxTimeout = 2 ** 31 - 1;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Estimates the cluster's `Clock` time, which the start and end date guards
+ * check, from the block times of recent slots. `now()` is the local time
+ * shifted by the offset of the last sync, so guard timing doesn't depend on
+ * the browser's clock being right.
+ */
+export const createClusterClock = (
+  connection: Connection,
+  { samples = 5, slotMs = 400 }: ClusterClockOptions = {}
+) => {
+  let offset = 0;
+  let synced = false;
+  const listeners = new Set<(offset: number) => void>();
+
+  const now = () => Date.now() + offset;
+
+  /** Samples the cluster time and updates the offset, resolves to it. */
+  const sync = async () => {
+    const requestedAt = Date.now();
+    const [tip, confirmed] = await Promise.all([
+      connection.getSlot("processed"),
+      connection.getSlot("confirmed"),
+    ]);
+    const localTime = (requestedAt + Date.now()) / 2;
+
+    // Skipped slots have no block time.
+    const slots = [...Array(samples)].map((_, i) => confirmed - i);
+    const blockTimes = await Promise.all(
+      slots.map((slot) => connection.getBlockTime(slot).catch(() => null))
+    );
+    const estimates = slots.flatMap((slot, i) =>
+      blockTimes[i] !== null
+        ? [blockTimes[i] * 1000 + (tip - slot) * slotMs]
+        : []
+    );
+    if (!estimates.length) throw new Error("No recent block time available");
+
+    const nextOffset = Math.round(median(estimates) - localTime);
+    const changed = !synced || nextOffset !== offset;
+    offset = nextOffset;
+    synced = true;
+    if (changed) listeners.forEach((listener) => listener(offset));
+    return offset;
+  };
+
+  /** Calls `listener` whenever a sync moves the offset. */
+  const subscribe = (listener: (offset: number) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    now,
+    sync,
+    subscribe,
+    get offset() {
+      return offset;
+    },
+    get synced() {
+      return synced;
+    },
+  };
+};
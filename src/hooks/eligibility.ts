@@ -0,0 +1,47 @@
+import { MessageKey, Translate } from "../i18n";
+import {
+  EligibilityGuard,
+  EligibilityResolution,
+  GuardEligibility,
+  GuardGroupStates,
+} from "./types";
+
+/** Checks that make a mint fail, in guard order. */
+export const failedChecks = (states: GuardGroupStates) =>
+  states.eligibility.filter(({ status }) => status === "fail");
+
+// Whether a token or NFT guard takes it from the wallet or only checks it
+const actionOf = (guard: EligibilityGuard) =>
+  guard === "tokenBurn" || guard === "nftBurn"
+    ? "burn"
+    : guard === "tokenGate" || guard === "nftGate"
+    ? "hold"
+    : "pay";
+
+const messageKey = ({ guard, reason }: GuardEligibility): MessageKey =>
+  reason === "insufficient-tokens" || reason === "insufficient-nfts"
+    ? `eligibility.${reason}.${actionOf(guard)}`
+    : `eligibility.${reason}`;
+
+/** Sentence for a check, built from its reason code and amounts. */
+export const eligibilityText = (result: GuardEligibility, t: Translate) => {
+  const unit =
+    result.unit ||
+    t(
+      result.reason === "token-2022-unsupported"
+        ? "eligibility.thisToken"
+        : "eligibility.tokens"
+    );
+  const amount = (value?: number) =>
+    value === undefined ? undefined : t("amount", { amount: value, unit });
+  return t(messageKey(result), {
+    unit,
+    required: amount(result.required),
+    available: amount(result.available),
+  });
+};
+
+export const resolutionText = (
+  resolution: EligibilityResolution,
+  t: Translate
+) => t(`resolution.${resolution}`);
@@ -0,0 +1,318 @@
+import {
+  getMplCandyGuardErrorFromCode,
+  getMplCandyMachineCoreErrorFromCode,
+  MPL_CANDY_GUARD_PROGRAM_ID,
+  MPL_CANDY_MACHINE_CORE_PROGRAM_ID,
+} from "@metaplex-foundation/mpl-candy-machine";
+import {
+  getMplTokenMetadataErrorFromCode,
+  MPL_TOKEN_METADATA_PROGRAM_ID,
+} from "@metaplex-foundation/mpl-token-metadata";
+import { Program } from "@metaplex-foundation/umi";
+import type { MessageKey, MessageParams, Translate } from "../i18n";
+
+export type MintErrorSource =
+  | "candyGuard"
+  | "candyMachine"
+  | "tokenMetadata"
+  | "wallet"
+  | "rpc"
+  | "unknown";
+
+export type DecodedMintError = {
+  code?: number;
+  name?: string;
+  source: MintErrorSource;
+  guard?: string;
+  // Catalog message shown to the user, see `mintErrorText`
+  messageKey: MessageKey;
+  params?: MessageParams;
+  // Params that are catalog keys themselves, translated along the message
+  paramKeys?: { [name: string]: MessageKey };
+  // Bot tax in SOL a failed simulation would have charged
+  botTax?: number;
+  retryable: boolean;
+};
+
+type ProgramDecoder = {
+  source: MintErrorSource;
+  fromCode: (code: number, program: Program) => Error & { code?: number };
+  program: Program;
+};
+
+// The generated decoders only read the program name and address.
+const programStub = (name: string, publicKey: string) =>
+  ({ name, publicKey } as unknown as Program);
+
+const programDecoders: { [programId: string]: ProgramDecoder } = {
+  [MPL_CANDY_GUARD_PROGRAM_ID]: {
+    source: "candyGuard",
+    fromCode: getMplCandyGuardErrorFromCode,
+    program: programStub("mplCandyGuard", MPL_CANDY_GUARD_PROGRAM_ID),
+  },
+  [MPL_CANDY_MACHINE_CORE_PROGRAM_ID]: {
+    source: "candyMachine",
+    fromCode: getMplCandyMachineCoreErrorFromCode,
+    program: programStub(
+      "mplCandyMachineCore",
+      MPL_CANDY_MACHINE_CORE_PROGRAM_ID
+    ),
+  },
+  [MPL_TOKEN_METADATA_PROGRAM_ID]: {
+    source: "tokenMetadata",
+    fromCode: getMplTokenMetadataErrorFromCode,
+    program: programStub("mplTokenMetadata", MPL_TOKEN_METADATA_PROGRAM_ID),
+  },
+};
+
+// Candy guard errors that point at a specific guard.
+const guardByErrorName: { [name: string]: string } = {
+  MintNotLive: "startDate",
+  AfterEndDate: "endDate",
+  InvalidMintTime: "startDate",
+  NotEnoughSOL: "solPayment",
+  NotEnoughTokens: "tokenPayment",
+  TokenTransferFailed: "tokenPayment",
+  TokenBurnFailed: "tokenBurn",
+  MissingRequiredSignature: "thirdPartySigner",
+  GatewayTokenInvalid: "gatekeeper",
+  AddressNotFoundInAllowedList: "allowList",
+  MissingAllowedListProof: "allowList",
+  AllowedListNotEnabled: "allowList",
+  AllowedMintLimitReached: "mintLimit",
+  InvalidNftCollection: "nftPayment",
+  MissingNft: "nftPayment",
+  MaximumRedeemedAmount: "redeemedAmount",
+  AddressNotAuthorized: "addressGate",
+  MissingFreezeInstruction: "freezeSolPayment",
+  FreezeGuardNotEnabled: "freezeSolPayment",
+  FreezeNotInitialized: "freezeSolPayment",
+  MissingFreezePeriod: "freezeSolPayment",
+  FreezeEscrowAlreadyExists: "freezeSolPayment",
+  ExceededMaximumFreezePeriod: "freezeSolPayment",
+  ThawNotEnabled: "freezeSolPayment",
+  UnlockNotEnabled: "freezeSolPayment",
+  UnauthorizedProgramFound: "programGate",
+  ExceededProgramListSize: "programGate",
+  AllocationNotInitialized: "allocation",
+  AllocationLimitReached: "allocation",
+  AllocationGuardNotEnabled: "allocation",
+  MintNotLastTransaction: "botTax",
+};
+
+// Friendlier wording for the errors users actually run into; every other
+// program error falls back to the message from the program's error enum.
+const userMessages: { [name: string]: MessageKey } = {
+  CandyMachineEmpty: "errors.CandyMachineEmpty",
+  MintNotLive: "errors.MintNotLive",
+  AfterEndDate: "errors.AfterEndDate",
+  InvalidMintTime: "errors.InvalidMintTime",
+  NotEnoughSOL: "errors.NotEnoughSOL",
+  NotEnoughTokens: "errors.NotEnoughTokens",
+  MissingRequiredSignature: "errors.MissingRequiredSignature",
+  GatewayTokenInvalid: "errors.GatewayTokenInvalid",
+  AddressNotFoundInAllowedList: "errors.AddressNotFoundInAllowedList",
+  MissingAllowedListProof: "errors.MissingAllowedListProof",
+  AllowedMintLimitReached: "errors.AllowedMintLimitReached",
+  InvalidNftCollection: "errors.InvalidNftCollection",
+  MissingNft: "errors.MissingNft",
+  MaximumRedeemedAmount: "errors.MaximumRedeemedAmount",
+  AddressNotAuthorized: "errors.AddressNotAuthorized",
+  UnauthorizedProgramFound: "errors.UnauthorizedProgramFound",
+  AllocationLimitReached: "errors.AllocationLimitReached",
+  FreezeNotInitialized: "errors.FreezeNotInitialized",
+  ThawNotEnabled: "errors.ThawNotEnabled",
+  UnlockNotEnabled: "errors.UnlockNotEnabled",
+  MintNotLastTransaction: "errors.MintNotLastTransaction",
+};
+
+const anchorErrors: { [code: number]: string } = {
+  2006: "ConstraintSeeds",
+  3007: "AccountOwnedByWrongProgram",
+  3012: "AccountNotInitialized",
+};
+
+const walletMessages: {
+  [name: string]: { messageKey: MessageKey; retryable: boolean };
+} = {
+  WalletNotConnectedError: {
+    messageKey: "errors.WalletNotConnectedError",
+    retryable: false,
+  },
+  WalletNotReadyError: {
+    messageKey: "errors.WalletNotReadyError",
+    retryable: false,
+  },
+  WalletDisconnectedError: {
+    messageKey: "errors.WalletDisconnectedError",
+    retryable: false,
+  },
+  WalletSignTransactionError: {
+    messageKey: "errors.WalletSignTransactionError",
+    retryable: true,
+  },
+  WalletSendTransactionError: {
+    messageKey: "errors.WalletSendTransactionError",
+    retryable: true,
+  },
+  WalletTimeoutError: {
+    messageKey: "errors.WalletTimeoutError",
+    retryable: true,
+  },
+  WalletWindowClosedError: {
+    messageKey: "errors.WalletWindowClosedError",
+    retryable: true,
+  },
+  WalletWindowBlockedError: {
+    messageKey: "errors.WalletWindowBlockedError",
+    retryable: true,
+  },
+};
+
+const failedProgramRegex =
+  /Program (\w+) failed: custom program error: (0x[0-9a-fA-F]+)/;
+const customErrorRegex = /custom program error: (0x[0-9a-fA-F]+)/;
+
+export const decodeProgramError = (
+  code: number,
+  programId?: string
+): DecodedMintError => {
+  const decoders = programId
+    ? [programDecoders[programId]].filter(Boolean)
+    : Object.values(programDecoders);
+  for (const { source, fromCode, program } of decoders) {
+    const error = fromCode(code, program);
+    if (!error) continue;
+    return {
+      code,
+      name: error.name,
+      source,
+      guard: source === "candyGuard" ? guardByErrorName[error.name] : undefined,
+      // Umi appends the program source on new lines, keep the message only.
+      ...(userMessages[error.name]
+        ? { messageKey: userMessages[error.name] }
+        : {
+            messageKey: "errors.program",
+            params: { message: error.message.split("\n")[0] },
+          }),
+      retryable: false,
+    };
+  }
+  return {
+    code,
+    name: anchorErrors[code],
+    source: "unknown",
+    messageKey: "errors.programCode",
+    params: { code: anchorErrors[code] || code },
+    retryable: false,
+  };
+};
+
+/**
+ * Finds the innermost failing program in transaction logs and decodes its
+ * error code.
+ */
+export const decodeLogs = (logs: string[] = []): DecodedMintError | null => {
+  for (const log of logs) {
+    const failed = log.match(failedProgramRegex);
+    if (failed) return decodeProgramError(parseInt(failed[2], 16), failed[1]);
+  }
+  return null;
+};
+
+/**
+ * Turns anything thrown while minting (wallet adapter errors, RPC errors,
+ * `SendTransactionError` logs or Metaplex `ProgramError`s) into a message key
+ * the UI can translate. Errors the client already decoded, such as failed
+ * simulations, carry it in `decoded`.
+ */
+export const decodeMintError = (error: any): DecodedMintError => {
+  if (error?.decoded) return error.decoded;
+  const message: string = error?.message || "";
+
+  if (error?.name && walletMessages[error.name])
+    return {
+      name: error.name,
+      source: "wallet",
+      ...walletMessages[error.name],
+    };
+
+  if (error?.code === 429 || message.includes("429"))
+    return {
+      code: 429,
+      source: "rpc",
+      messageKey: "errors.rateLimited",
+      retryable: true,
+    };
+
+  if (/block height exceeded|blockhash not found|has expired/i.test(message))
+    return {
+      name: "TransactionExpired",
+      source: "rpc",
+      messageKey: "errors.expired",
+      retryable: true,
+    };
+
+  // Metaplex ParsedProgramError keeps the decoded error in `cause`.
+  const programId = error?.program?.address?.toString();
+  const programCode = error?.cause?.code ?? error?.code;
+  if (programId && typeof programCode === "number")
+    return decodeProgramError(programCode, programId);
+
+  const fromLogs = decodeLogs(error?.logs || error?.cause?.logs);
+  if (fromLogs) return fromLogs;
+
+  const customError = message.match(customErrorRegex);
+  if (customError) return decodeProgramError(parseInt(customError[1], 16));
+
+  if (/failed to fetch|network/i.test(message))
+    return {
+      source: "rpc",
+      messageKey: "errors.network",
+      retryable: true,
+    };
+
+  return {
+    source: "unknown",
+    ...(message
+      ? { messageKey: "errors.raw", params: { message } }
+      : { messageKey: "errors.unknown" }),
+    retryable: false,
+  };
+};
+
+/**
+ * Error the client already decoded, `decodeMintError` returns `decoded` as
+ * is. `message` is only a plain fallback for logs.
+ */
+export const decodedError = (message: string, decoded: DecodedMintError) =>
+  Object.assign(new Error(message), { decoded });
+
+/** Guard the mint can't be built for, thrown before anything is signed. */
+export const guardError = (
+  guard: string,
+  messageKey: MessageKey,
+  message: string,
+  params?: MessageParams
+) =>
+  decodedError(message, {
+    source: "candyGuard",
+    guard,
+    messageKey,
+    params,
+    retryable: false,
+  });
+
+/** Sentence for a decoded error, with the bot tax it would have cost. */
+export const mintErrorText = (error: DecodedMintError, t: Translate) => {
+  const params = { ...error.params };
+  Object.entries(error.paramKeys || {}).forEach(
+    ([name, key]) => (params[name] = t(key))
+  );
+  const text = t(error.messageKey, params);
+  return error.botTax
+    ? `${text} ${t("errors.botTax", {
+        price: t("amount", { amount: error.botTax, unit: "SOL" }),
+      })}`
+    : text;
+};
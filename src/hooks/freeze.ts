@@ -0,0 +1,200 @@
+import {
+  Metadata,
+  Metaplex,
+  TransactionBuilder,
+} from "@metaplex-foundation/js";
+import {
+  route,
+  safeFetchFreezeEscrowFromSeeds,
+} from "@metaplex-foundation/mpl-candy-machine";
+import {
+  isProgrammable,
+  TokenStandard,
+} from "@metaplex-foundation/mpl-token-metadata";
+import {
+  createNoopSigner,
+  PublicKey as UmiPublicKey,
+  Signer,
+  Umi,
+  unwrapOption,
+} from "@metaplex-foundation/umi";
+import {
+  getAssociatedTokenAddressSync,
+  unpackAccount,
+} from "@solana/spl-token";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { fetchTokenRecordState } from "./programmable";
+import { CandyGuardAccounts, FreezeEscrowState, FreezeLogics } from "./types";
+import { toTransactionBuilder, toUmiPublicKey, toWeb3PublicKey } from "./umi";
+
+/**
+ * Reads the freeze escrow of a freeze payment guard. `null` when the
+ * authority hasn't initialized it yet, mints fail until then.
+ */
+export const fetchFreezeEscrow = async (
+  umi: Umi,
+  candyMachine: CandyGuardAccounts,
+  destination: PublicKey
+): Promise<FreezeEscrowState | null> => {
+  const escrow = await safeFetchFreezeEscrowFromSeeds(umi, {
+    destination: toUmiPublicKey(destination),
+    candyMachine: toUmiPublicKey(candyMachine.address),
+    candyGuard: toUmiPublicKey(candyMachine.candyGuard.address),
+  });
+  if (!escrow) return null;
+
+  const firstMintTime = unwrapOption(escrow.firstMintTime);
+  const freezePeriod = Number(escrow.freezePeriod);
+  return {
+    address: toWeb3PublicKey(escrow.publicKey),
+    authority: toWeb3PublicKey(escrow.authority),
+    frozenCount: Number(escrow.frozenCount),
+    freezePeriod,
+    firstMintTime:
+      firstMintTime !== null ? new Date(Number(firstMintTime) * 1000) : null,
+    thawDate:
+      firstMintTime !== null
+        ? new Date((Number(firstMintTime) + freezePeriod) * 1000)
+        : null,
+  };
+};
+
+/**
+ * Frozen NFTs can be thawed by anyone once the freeze period is over or
+ * every item has been minted.
+ */
+export const isThawable = (
+  escrow: FreezeEscrowState | null | undefined,
+  items: { remaining: number },
+  now: number = Date.now()
+) =>
+  !!escrow &&
+  (items.remaining === 0 ||
+    (!!escrow.thawDate && escrow.thawDate.getTime() <= now));
+
+/**
+ * Whether an NFT minted by a freeze payment guard is still frozen: pNFTs are
+ * locked in their token record, other NFTs have a frozen token account. The
+ * delegate is the freeze escrow holding it.
+ */
+export const fetchNftFreezeState = async (
+  connection: Connection,
+  nft: Pick<Metadata, "mintAddress" | "tokenStandard">,
+  owner: PublicKey
+): Promise<{ frozen: boolean; delegate?: PublicKey }> => {
+  const tokenAddress = getAssociatedTokenAddressSync(nft.mintAddress, owner);
+  if (isProgrammable(nft.tokenStandard as number as TokenStandard)) {
+    const tokenRecord = await fetchTokenRecordState(
+      connection,
+      nft.mintAddress,
+      tokenAddress
+    );
+    return { frozen: !!tokenRecord?.locked, delegate: tokenRecord?.delegate };
+  }
+  const account = await connection.getAccountInfo(tokenAddress);
+  if (!account) return { frozen: false };
+  const token = unpackAccount(tokenAddress, account, account.owner);
+  return { frozen: token.isFrozen, delegate: token.delegate ?? undefined };
+};
+
+type FreezeRouteArgs =
+  | {
+      path: "thaw";
+      nftMint: UmiPublicKey;
+      nftOwner: UmiPublicKey;
+      nftTokenStandard: TokenStandard;
+      nftRuleSet?: UmiPublicKey;
+    }
+  | { path: "unlockFunds"; candyGuardAuthority: Signer };
+
+// The escrow is keyed by the guard destination, the token ATA for
+// freezeTokenPayment.
+const freezeRouteBuilder = (
+  mx: Metaplex,
+  umi: Umi,
+  {
+    candyMachine,
+    label,
+    freeze,
+  }: { candyMachine: CandyGuardAccounts; label: string; freeze: FreezeLogics },
+  routeArgs: FreezeRouteArgs
+) => {
+  const accounts = {
+    candyMachine: toUmiPublicKey(candyMachine.address),
+    candyGuard: toUmiPublicKey(candyMachine.candyGuard.address),
+    group: label === "default" ? null : label,
+  };
+  const builder = freeze.mint
+    ? route(umi, {
+        ...accounts,
+        guard: "freezeTokenPayment",
+        routeArgs: {
+          ...routeArgs,
+          mint: toUmiPublicKey(freeze.mint),
+          destinationAta: toUmiPublicKey(freeze.destination),
+        },
+      })
+    : route(umi, {
+        ...accounts,
+        guard: "freezeSolPayment",
+        routeArgs: {
+          ...routeArgs,
+          destination: toUmiPublicKey(freeze.destination),
+        },
+      });
+  return toTransactionBuilder(
+    builder,
+    [mx.identity()],
+    routeArgs.path
+  ).setFeePayer(mx.identity());
+};
+
+/**
+ * Thaws one NFT minted through a freeze payment guard. Permissionless once
+ * the escrow is thawable, the current identity only pays the fee.
+ */
+export const thawNftBuilder = (
+  mx: Metaplex,
+  umi: Umi,
+  {
+    nft,
+    owner,
+    ...guard
+  }: {
+    candyMachine: CandyGuardAccounts;
+    label: string;
+    freeze: FreezeLogics;
+    nft: Pick<Metadata, "mintAddress" | "tokenStandard" | "programmableConfig">;
+    owner: PublicKey;
+  }
+): TransactionBuilder => {
+  const ruleSet = nft.programmableConfig?.ruleSet;
+  return freezeRouteBuilder(mx, umi, guard, {
+    path: "thaw",
+    nftMint: toUmiPublicKey(nft.mintAddress),
+    nftOwner: toUmiPublicKey(owner),
+    nftTokenStandard: (nft.tokenStandard ??
+      TokenStandard.NonFungible) as number as TokenStandard,
+    nftRuleSet: ruleSet ? toUmiPublicKey(ruleSet) : undefined,
+  });
+};
+
+/**
+ * Moves the escrowed payments to the guard destination once every frozen
+ * NFT has been thawed. Only the candy guard authority can sign it.
+ */
+export const unlockFundsBuilder = (
+  mx: Metaplex,
+  umi: Umi,
+  guard: {
+    candyMachine: CandyGuardAccounts;
+    label: string;
+    freeze: FreezeLogics;
+  }
+): TransactionBuilder =>
+  freezeRouteBuilder(mx, umi, guard, {
+    path: "unlockFunds",
+    candyGuardAuthority: createNoopSigner(
+      toUmiPublicKey(mx.identity().publicKey)
+    ),
+  });
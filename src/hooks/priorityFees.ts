@@ -0,0 +1,66 @@
+import { InstructionWithSigners } from "@metaplex-foundation/js";
+import { ComputeBudgetProgram, Connection, PublicKey } from "@solana/web3.js";
+
+export type PriorityFeeSetting = "auto" | number;
+
+// Used for cost estimates until a mint has been simulated.
+export const defaultMintComputeUnits = 250_000;
+
+// Most a transaction can request.
+export const maxComputeUnits = 1_400_000;
+
+// Headroom on top of the simulated compute units.
+const computeUnitMargin = 1.1;
+
+// Percentile of recent non-zero fees paid on the same accounts.
+const autoFeePercentile = 0.75;
+
+/**
+ * Returns the compute unit price in microlamports, either the configured one
+ * or an estimate from fees recently paid to write the given accounts.
+ */
+export const getPriorityFee = async (
+  connection: Connection,
+  accounts: PublicKey[],
+  setting: PriorityFeeSetting
+): Promise<number> => {
+  if (setting !== "auto") return setting;
+  const fees = await connection
+    .getRecentPrioritizationFees({ lockedWritableAccounts: accounts })
+    .then((x) =>
+      x
+        .map(({ prioritizationFee }) => prioritizationFee)
+        .filter((fee) => fee > 0)
+        .sort((a, b) => a - b)
+    )
+    .catch((e) => {
+      console.error("Failed to fetch recent prioritization fees", e);
+      return [] as number[];
+    });
+  if (!fees.length) return 0;
+  return fees[Math.floor((fees.length - 1) * autoFeePercentile)];
+};
+
+export const computeUnitsFromSimulation = (unitsConsumed: number) =>
+  Math.ceil(unitsConsumed * computeUnitMargin);
+
+export const priorityFeeLamports = (
+  microLamports: number,
+  computeUnits: number = defaultMintComputeUnits
+) => Math.ceil((microLamports * computeUnits) / 1_000_000);
+
+export const computeUnitPriceInstruction = (
+  microLamports: number
+): InstructionWithSigners => ({
+  instruction: ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+  signers: [],
+  key: "setComputeUnitPrice",
+});
+
+export const computeUnitLimitInstruction = (
+  units: number
+): InstructionWithSigners => ({
+  instruction: ComputeBudgetProgram.setComputeUnitLimit({ units }),
+  signers: [],
+  key: "setComputeUnitLimit",
+});
@@ -0,0 +1,263 @@
+import {
+  CandyMachine,
+  Metaplex,
+  Signer,
+  TransactionBuilder,
+} from "@metaplex-foundation/js";
+import {
+  DefaultGuardSet,
+  DefaultGuardSetMintArgs,
+  fetchCandyGuard,
+  getCandyMachineRuleSet,
+  mintV2,
+} from "@metaplex-foundation/mpl-candy-machine";
+import {
+  isProgrammable,
+  safeFetchTokenRecordFromSeeds,
+  TokenStandard,
+  TokenState,
+} from "@metaplex-foundation/mpl-token-metadata";
+import {
+  createNoopSigner,
+  createSignerFromKeypair,
+  isSome,
+  Umi,
+  unwrapOption,
+} from "@metaplex-foundation/umi";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { CustomCandyGuardMintSettings, NftGuardPick } from "./types";
+import {
+  createCandyMachineUmi,
+  toTransactionBuilder,
+  toUmiPublicKey,
+  toWeb3PublicKey,
+} from "./umi";
+import { mergeUmiGuards } from "./umiGuards";
+
+// Used for pNFT mints that can't be simulated first (allow list proof not
+// stored yet), the default 200k units are not enough for them.
+export const programmableMintComputeUnits = 400_000;
+
+export type TokenStandardInfo = {
+  tokenStandard: TokenStandard;
+  // Rule set enforced on transfers of the minted pNFTs, if any
+  ruleSet?: PublicKey;
+};
+
+export type MintV2Context = {
+  mintSigner: Keypair;
+  tokenAddress: PublicKey;
+};
+
+export type TokenRecordState = {
+  state: TokenState;
+  locked: boolean;
+  delegate?: PublicKey;
+};
+
+/**
+ * Reads the token standard the candy machine mints and, for pNFTs, the rule
+ * set they get (the candy machine's own or the collection's).
+ */
+export const fetchTokenStandard = async (
+  umi: Umi,
+  connection: Connection,
+  candyMachine: PublicKey
+): Promise<TokenStandardInfo> => {
+  // Discriminator (8 bytes) and account version (1 byte) come first.
+  const account = await connection.getAccountInfo(candyMachine, {
+    dataSlice: { offset: 9, length: 1 },
+  });
+  if (!account) throw new Error("Candy Machine not found!");
+  const tokenStandard = account.data[0] as TokenStandard;
+  if (!isProgrammable(tokenStandard)) return { tokenStandard };
+
+  const ruleSet = unwrapOption(
+    await getCandyMachineRuleSet(umi, toUmiPublicKey(candyMachine))
+  );
+  return {
+    tokenStandard,
+    ruleSet: ruleSet ? toWeb3PublicKey(ruleSet) : undefined,
+  };
+};
+
+/** Guards of a group as the v6 program reads them. */
+export const fetchUmiGroupGuards = async (
+  umi: Umi,
+  candyMachine: CandyMachine,
+  label: string
+): Promise<DefaultGuardSet> =>
+  mergeUmiGuards(
+    await fetchCandyGuard(umi, toUmiPublicKey(candyMachine.candyGuard.address)),
+    label
+  );
+
+/**
+ * Mint arguments for the guards that need some, built from the guard
+ * settings and the validated mint settings (picked NFTs, third party signer).
+ */
+const guardMintArgs = (
+  guards: DefaultGuardSet,
+  mintSettings: CustomCandyGuardMintSettings,
+  ruleSet?: PublicKey
+): Partial<DefaultGuardSetMintArgs> => {
+  const mintArgs: Partial<DefaultGuardSetMintArgs> = {};
+  const nftRuleSet = ruleSet ? toUmiPublicKey(ruleSet) : undefined;
+  const pickTokenStandard = ({ tokenStandard }: NftGuardPick) =>
+    (tokenStandard ?? TokenStandard.NonFungible) as number as TokenStandard;
+
+  if (isSome(guards.solPayment))
+    mintArgs.solPayment = {
+      destination: guards.solPayment.value.destination,
+    };
+  if (isSome(guards.tokenPayment))
+    mintArgs.tokenPayment = {
+      mint: guards.tokenPayment.value.mint,
+      destinationAta: guards.tokenPayment.value.destinationAta,
+    };
+  if (isSome(guards.tokenBurn))
+    mintArgs.tokenBurn = { mint: guards.tokenBurn.value.mint };
+  if (isSome(guards.tokenGate))
+    mintArgs.tokenGate = { mint: guards.tokenGate.value.mint };
+  if (isSome(guards.mintLimit))
+    mintArgs.mintLimit = { id: guards.mintLimit.value.id };
+  if (isSome(guards.allocation))
+    mintArgs.allocation = { id: guards.allocation.value.id };
+  if (isSome(guards.allowList))
+    mintArgs.allowList = { merkleRoot: guards.allowList.value.merkleRoot };
+  if (isSome(guards.gatekeeper))
+    mintArgs.gatekeeper = {
+      gatekeeperNetwork: guards.gatekeeper.value.gatekeeperNetwork,
+      expireOnUse: guards.gatekeeper.value.expireOnUse,
+    };
+  if (isSome(guards.freezeSolPayment))
+    mintArgs.freezeSolPayment = {
+      destination: guards.freezeSolPayment.value.destination,
+      nftRuleSet,
+    };
+  if (isSome(guards.freezeTokenPayment))
+    mintArgs.freezeTokenPayment = {
+      mint: guards.freezeTokenPayment.value.mint,
+      destinationAta: guards.freezeTokenPayment.value.destinationAta,
+      nftRuleSet,
+    };
+  if (isSome(guards.token2022Payment))
+    mintArgs.token2022Payment = {
+      mint: guards.token2022Payment.value.mint,
+      destinationAta: guards.token2022Payment.value.destinationAta,
+    };
+  if (mintSettings.thirdPartySigner)
+    mintArgs.thirdPartySigner = {
+      signer: createNoopSigner(
+        toUmiPublicKey(mintSettings.thirdPartySigner.signer.publicKey)
+      ),
+    };
+  if (isSome(guards.nftPayment) && mintSettings.nftPayment)
+    mintArgs.nftPayment = {
+      destination: guards.nftPayment.value.destination,
+      mint: toUmiPublicKey(mintSettings.nftPayment.mint),
+      tokenStandard: pickTokenStandard(mintSettings.nftPayment),
+      ruleSet: mintSettings.nftPayment.ruleSet
+        ? toUmiPublicKey(mintSettings.nftPayment.ruleSet)
+        : undefined,
+    };
+  if (isSome(guards.nftBurn) && mintSettings.nftBurn)
+    mintArgs.nftBurn = {
+      requiredCollection: guards.nftBurn.value.requiredCollection,
+      mint: toUmiPublicKey(mintSettings.nftBurn.mint),
+      tokenStandard: pickTokenStandard(mintSettings.nftBurn),
+    };
+  if (isSome(guards.nftGate) && mintSettings.nftGate)
+    mintArgs.nftGate = { mint: toUmiPublicKey(mintSettings.nftGate.mint) };
+  return mintArgs;
+};
+
+/**
+ * Builds a `mintV2` mint as a JS SDK `TransactionBuilder`, so it is signed
+ * and sent like the legacy mints. For pNFTs it adds the rule set, token
+ * record and authorization accounts.
+ */
+export const mintV2Builder = async (
+  mx: Metaplex,
+  umi: Umi,
+  {
+    candyMachine,
+    candyGuard,
+    collectionMint,
+    collectionUpdateAuthority,
+    label,
+    guards,
+    walletAddress,
+    tokenStandard,
+    ruleSet,
+    mintSettings,
+  }: {
+    candyMachine: PublicKey;
+    candyGuard: PublicKey;
+    collectionMint: PublicKey;
+    collectionUpdateAuthority: PublicKey;
+    label: string;
+    guards: DefaultGuardSet;
+    walletAddress: PublicKey;
+    tokenStandard: TokenStandard;
+    ruleSet?: PublicKey;
+    // Already checked against the group
+    mintSettings: CustomCandyGuardMintSettings;
+  }
+): Promise<TransactionBuilder<MintV2Context>> => {
+  const mintSigner = Keypair.generate();
+  const minter = createNoopSigner(toUmiPublicKey(walletAddress));
+  const tokenAddress = getAssociatedTokenAddressSync(
+    mintSigner.publicKey,
+    walletAddress
+  );
+
+  const builder = mintV2(umi, {
+    candyMachine: toUmiPublicKey(candyMachine),
+    candyGuard: toUmiPublicKey(candyGuard),
+    nftMint: createSignerFromKeypair(umi, {
+      publicKey: toUmiPublicKey(mintSigner.publicKey),
+      secretKey: mintSigner.secretKey,
+    }),
+    minter,
+    payer: minter,
+    token: toUmiPublicKey(tokenAddress),
+    collectionMint: toUmiPublicKey(collectionMint),
+    collectionUpdateAuthority: toUmiPublicKey(collectionUpdateAuthority),
+    tokenStandard,
+    authorizationRules: ruleSet ? toUmiPublicKey(ruleSet) : undefined,
+    group: label === "default" ? null : label,
+    mintArgs: guardMintArgs(guards, mintSettings, ruleSet),
+  });
+
+  const signers: Signer[] = [mintSigner, mx.identity()];
+  if (mintSettings.thirdPartySigner)
+    signers.push(mintSettings.thirdPartySigner.signer);
+  return toTransactionBuilder<MintV2Context>(builder, signers, "mintV2")
+    .setFeePayer(mx.identity())
+    .setContext({ mintSigner, tokenAddress });
+};
+
+/**
+ * Lock state of a minted pNFT from its token record. `null` when the NFT has
+ * no token record (not programmable).
+ */
+export const fetchTokenRecordState = async (
+  connection: Connection,
+  mint: PublicKey,
+  tokenAddress: PublicKey
+): Promise<TokenRecordState | null> => {
+  const umi = createCandyMachineUmi(connection);
+  const tokenRecord = await safeFetchTokenRecordFromSeeds(umi, {
+    mint: toUmiPublicKey(mint),
+    token: toUmiPublicKey(tokenAddress),
+  });
+  if (!tokenRecord) return null;
+  const delegate = unwrapOption(tokenRecord.delegate);
+  return {
+    state: tokenRecord.state,
+    locked: tokenRecord.state !== TokenState.Unlocked,
+    delegate: delegate ? toWeb3PublicKey(delegate) : undefined,
+  };
+};
@@ -0,0 +1,80 @@
+import { Connection, Transaction, VersionedTransaction } from "@solana/web3.js";
+import type { MessageKey, MessageParams } from "../i18n";
+import { decodeLogs, DecodedMintError } from "./errors";
+
+export type SimulationDiagnostic = {
+  index: number;
+  error: DecodedMintError;
+  botTaxed: boolean;
+  logs: string[];
+};
+
+const anchorErrorRegex =
+  /Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/;
+
+// Emitted by the candy guard when a failing guard is punished instead of
+// failing the transaction.
+const botTaxRegex = /Botting/i;
+
+export const parseSimulationLogs = (
+  logs: string[] = [],
+  err?: unknown
+): { error?: DecodedMintError; botTaxed: boolean } => {
+  const botTaxed = logs.some((log) => botTaxRegex.test(log));
+  const failed = (messageKey: MessageKey, params?: MessageParams) => ({
+    error: { source: "unknown" as const, messageKey, params, retryable: false },
+    botTaxed,
+  });
+  if (logs.some((log) => /insufficient lamports/i.test(log)))
+    return failed("errors.insufficientLamports");
+  const decoded = decodeLogs(logs);
+  if (decoded) return { error: decoded, botTaxed };
+  for (const log of logs) {
+    const anchorError = log.match(anchorErrorRegex);
+    if (anchorError)
+      return failed("errors.program", { message: anchorError[3] });
+  }
+  if (err) return failed("errors.wouldFail", { error: JSON.stringify(err) });
+  return botTaxed ? failed("errors.guardFailed") : { botTaxed };
+};
+
+/**
+ * Simulates unsigned transactions and returns a diagnostic for every one that
+ * would fail or be bot taxed, plus the compute units each one consumed. No
+ * diagnostics means all of them are safe to sign.
+ */
+export const simulateTransactions = async (
+  connection: Connection,
+  transactions: Transaction[]
+): Promise<{
+  diagnostics: SimulationDiagnostic[];
+  unitsConsumed: (number | undefined)[];
+}> => {
+  const results = await Promise.all(
+    transactions.map((tx) =>
+      connection.simulateTransaction(
+        new VersionedTransaction(tx.compileMessage()),
+        { sigVerify: false, replaceRecentBlockhash: true }
+      )
+    )
+  );
+  const diagnostics = results.reduce((diagnostics, { value }, index) => {
+    const { error, botTaxed } = parseSimulationLogs(
+      value.logs || [],
+      value.err
+    );
+    // Either of them always comes with an error
+    if (error && (value.err || botTaxed))
+      diagnostics.push({
+        index,
+        error,
+        botTaxed,
+        logs: value.logs || [],
+      });
+    return diagnostics;
+  }, [] as SimulationDiagnostic[]);
+  return {
+    diagnostics,
+    unitsConsumed: results.map(({ value }) => value.unitsConsumed),
+  };
+};
@@ -0,0 +1,131 @@
+import { base58 } from "@metaplex-foundation/umi/serializers";
+import {
+  BlockhashWithExpiryBlockHeight,
+  Commitment,
+  Connection,
+  SendTransactionError,
+  SignatureStatus,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionExpiredTimeoutError,
+} from "@solana/web3.js";
+import { confirmCommitment } from "../config";
+
+const commitmentLevels: Commitment[] = ["processed", "confirmed", "finalized"];
+
+const meetsCommitment = (
+  status: SignatureStatus["confirmationStatus"],
+  commitment: Commitment
+) =>
+  !!status &&
+  commitmentLevels.indexOf(status) >= commitmentLevels.indexOf(commitment);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const getTransactionSignature = (transaction: Transaction) =>
+  base58.deserialize(transaction.signature)[0];
+
+/**
+ * Looks a signature up in the whole transaction history. `null` means the
+ * cluster has never seen it, `undefined` that the lookup itself failed.
+ */
+export const getLandedStatus = (connection: Connection, signature: string) =>
+  connection
+    .getSignatureStatus(signature, { searchTransactionHistory: true })
+    .then(({ value }) => value)
+    .catch((e) => {
+      console.error("Failed to fetch signature status", e);
+      return undefined as SignatureStatus | null | undefined;
+    });
+
+const failedTransactionError = async (
+  connection: Connection,
+  signature: string,
+  status: SignatureStatus
+) => {
+  const transaction = await connection
+    .getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    })
+    .catch(() => null);
+  return new SendTransactionError({
+    action: "send",
+    signature,
+    transactionMessage: `Transaction failed: ${JSON.stringify(status.err)}`,
+    logs: transaction?.meta?.logMessages || [],
+  });
+};
+
+/**
+ * Sends a signed transaction and rebroadcasts it until it reaches
+ * `commitment` or its blockhash expires. Throws
+ * `TransactionExpiredBlockheightExceededError` only once the blockhash is past
+ * `lastValidBlockHeight` and a status lookup found no trace of the signature,
+ * which is the only case where re-signing with a fresh blockhash is safe.
+ * Past `timeout` it gives up with `TransactionExpiredTimeoutError`, the
+ * outcome being unknown.
+ */
+export const sendAndConfirmWithRebroadcast = async (
+  connection: Connection,
+  transaction: Transaction,
+  { lastValidBlockHeight }: BlockhashWithExpiryBlockHeight,
+  {
+    commitment = confirmCommitment,
+    rebroadcastInterval = 2000,
+    timeout = 180_000,
+    onSent,
+  }: {
+    commitment?: Commitment;
+    rebroadcastInterval?: number;
+    timeout?: number;
+    onSent?: (signature: string) => void;
+  } = {}
+): Promise<string> => {
+  const rawTransaction = transaction.serialize();
+  const signature = getTransactionSignature(transaction);
+  const deadline = Date.now() + timeout;
+
+  try {
+    await connection.sendRawTransaction(rawTransaction, { maxRetries: 0 });
+  } catch (e) {
+    // A preflight that failed with program logs will never land. Anything
+    // else (timeouts, rate limits) may still have been forwarded, so keep
+    // tracking the signature until it lands or provably expires.
+    if (e instanceof SendTransactionError && e.logs?.length) throw e;
+    console.error("Failed to send transaction, rebroadcasting", e);
+  }
+  onSent?.(signature);
+
+  while (true) {
+    await sleep(rebroadcastInterval);
+
+    const status = await getLandedStatus(connection, signature);
+    if (status?.err)
+      throw await failedTransactionError(connection, signature, status);
+    if (status && meetsCommitment(status.confirmationStatus, commitment))
+      return signature;
+
+    // Checked even once landed: a block on a minority fork can be dropped,
+    // leaving the transaction to expire like one that never landed.
+    const blockHeight = await connection
+      .getBlockHeight("confirmed")
+      .catch(() => undefined);
+    const expired =
+      blockHeight !== undefined && blockHeight > lastValidBlockHeight;
+    if (expired && (await getLandedStatus(connection, signature)) === null)
+      throw new TransactionExpiredBlockheightExceededError(signature);
+
+    if (Date.now() > deadline)
+      throw new TransactionExpiredTimeoutError(signature, timeout / 1000);
+
+    // Not seen (yet, or any more), send it again while it can still land.
+    if (!status && !expired)
+      connection
+        .sendRawTransaction(rawTransaction, {
+          skipPreflight: true,
+          maxRetries: 0,
+        })
+        .catch((e) => console.error("Failed to rebroadcast transaction", e));
+  }
+};
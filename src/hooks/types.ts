@@ -9,17 +9,23 @@ import {
 } from "@metaplex-foundation/js";
 import { AccountInfo, PublicKey } from "@solana/web3.js";
 import { MintCounterBorsh } from "../borsh/mintCounter";
+import { DecodedMintError } from "./errors";
 
 export type Token = {
   mint: PublicKey;
   balance: number;
   decimals: number;
+  // SPL Token or Token-2022
+  programId: PublicKey;
 };
 export type TokenPayment$Gate = {
   mint: PublicKey;
   amount: number;
   symbol?: string;
   decimals: number;
+  programId?: PublicKey;
+  // Set for token2022Payment, the only token guard moving Token-2022 tokens
+  token2022?: boolean;
 };
 
 // export type SolPayment = {
@@ -71,9 +77,23 @@ export type GuardGroup = {
   // payments?: PaymentGuard[];
   mintLimit?: MintLimitLogics;
   redeemLimit?: number;
-  allowed?: PublicKey[];
+  // Only wallet the addressGate guard lets mint
+  addressGate?: PublicKey;
+  // Merkle root of the allowList guard, `allowListed` when the wallet has a
+  // proof for it
   allowList?: Uint8Array;
+  allowListed?: boolean;
   gatekeeperNetwork?: PublicKey;
+  // The pass is spent by every mint and has to be requested again
+  gatekeeperExpireOnUse?: boolean;
+  thirdPartySigner?: PublicKey;
+  // Payment is held in escrow until the NFTs are thawed
+  freeze?: FreezeLogics;
+  allocation?: AllocationLogics;
+  // Charged instead of failing invalid mints
+  botTax?: { lamports: number; lastInstruction: boolean };
+  // Programs allowed in the mint transaction besides the required ones
+  programGate?: PublicKey[];
 };
 
 export type MintLimitLogics = {
@@ -83,27 +103,133 @@ export type MintLimitLogics = {
   mintCounter?: MintCounterBorsh; //MintCounter;
 };
 
+// Candy machine and candy guard addresses, whichever SDK loaded them
+export type CandyGuardAccounts = {
+  address: PublicKey;
+  candyGuard: { address: PublicKey };
+};
+
+export type FreezeLogics = {
+  // Escrow seed: the SOL destination or the token destination ATA
+  destination: PublicKey;
+  // Payment mint of freezeTokenPayment, unset for freezeSolPayment
+  mint?: PublicKey;
+  // null until the authority initializes the escrow
+  escrow?: FreezeEscrowState | null;
+};
+
+export type FreezeEscrowState = {
+  address: PublicKey;
+  // Candy guard authority, the only one able to unlock the funds
+  authority: PublicKey;
+  frozenCount: number;
+  // Seconds after the first mint until anyone can thaw
+  freezePeriod: number;
+  firstMintTime: Date | null;
+  thawDate: Date | null;
+};
+
+export type AllocationLogics = {
+  id: number;
+  limit: number;
+  // Mints so far across all wallets, from the allocation tracker PDA
+  minted: number;
+  // false until the authority creates the tracker, mints fail before that
+  initialized?: boolean;
+};
+
+export type EligibilityGuard =
+  | "startDate"
+  | "endDate"
+  | "mintLimit"
+  | "allocation"
+  | "redeemedAmount"
+  | "solPayment"
+  | "freezeSolPayment"
+  | "tokenPayment"
+  | "freezeTokenPayment"
+  | "token2022Payment"
+  | "nftPayment"
+  | "tokenBurn"
+  | "nftBurn"
+  | "tokenGate"
+  | "nftGate"
+  | "addressGate"
+  | "allowList"
+  | "gatekeeper";
+
+export type EligibilityReason =
+  | "eligible"
+  | "not-started"
+  | "ended"
+  | "mint-limit-reached"
+  | "escrow-not-initialized"
+  | "allocation-not-initialized"
+  | "allocation-minted-out"
+  | "redeemed-out"
+  | "insufficient-sol"
+  | "insufficient-tokens"
+  | "insufficient-nfts"
+  | "token-2022-unsupported"
+  | "not-allowed"
+  | "pass-required"
+  | "loading";
+
+// What the user can do about a failing check
+export type EligibilityResolution =
+  | "wait"
+  | "add-sol"
+  | "get-tokens"
+  | "get-nfts"
+  | "switch-wallet"
+  | "get-pass";
+
+export type GuardEligibility = {
+  guard: EligibilityGuard;
+  // "unknown" when it can only be told on-chain or isn't loaded yet
+  status: "pass" | "fail" | "unknown";
+  reason: EligibilityReason;
+  // Per mint, in `unit` (SOL, token UI amount or NFTs)
+  required?: number;
+  available?: number;
+  unit?: string;
+  resolution?: EligibilityResolution;
+};
+
 export type GuardGroupStates = {
   isStarted: boolean;
   isEnded: boolean;
   canPayFor: number;
-  messages: string[];
+  // One check per guard of the group, see `eligibilityText`
+  eligibility: GuardEligibility[];
   isLimitReached: boolean;
   isWalletWhitelisted: boolean;
   hasGatekeeper: boolean;
 };
 
+export type MintTransactionPhase =
+  | { phase: "preparing" }
+  | { phase: "awaiting-signature" }
+  | { phase: "sent"; signature: string }
+  | { phase: "confirmed"; signature: string }
+  | { phase: "fetched"; signature: string }
+  | { phase: "failed"; error: DecodedMintError; signature?: string };
+
 export type PaymentRequired = {
   label: string;
   price: number;
   mint?: PublicKey;
   decimals?: number;
   kind: string;
+  // Held in the freeze escrow until the minted NFT is thawed
+  escrow?: boolean;
 };
 export type ParsedPricesForUI = {
   payment: PaymentRequired[];
   burn: PaymentRequired[];
   gate: PaymentRequired[];
+  // Penalty paid instead of the price when a mint is invalid
+  botTax?: PaymentRequired;
 };
 
 export declare type CustomCandyGuardMintSettings = Partial<
@@ -111,6 +237,9 @@ export declare type CustomCandyGuardMintSettings = Partial<
     allowList: {
       proof: Uint8Array[];
     };
+    nftPayment: NftGuardPick;
+    nftBurn: NftGuardPick;
+    nftGate: NftGuardPick;
   }
 >;
 
@@ -119,8 +248,14 @@ export type AllowLists = {
   list: (string | Uint8Array)[];
 }[];
 
+// pNFTs need their token standard and rule set to be transferred or burned.
+export type NftGuardPick = {
+  tokenStandard?: Metadata["tokenStandard"];
+  ruleSet?: PublicKey;
+};
+
 export type NftPaymentMintSettings = {
-  payment?: NftPaymentGuardMintSettings;
-  gate?: NftGateGuardMintSettings;
-  burn?: NftBurnGuardMintSettings;
+  payment?: NftPaymentGuardMintSettings & NftGuardPick;
+  gate?: NftGateGuardMintSettings & NftGuardPick;
+  burn?: NftBurnGuardMintSettings & NftGuardPick;
 };
@@ -0,0 +1,68 @@
+import { Signer, TransactionBuilder } from "@metaplex-foundation/js";
+import { mplCandyMachine } from "@metaplex-foundation/mpl-candy-machine";
+import { mplTokenMetadata } from "@metaplex-foundation/mpl-token-metadata";
+import {
+  Instruction,
+  lamports,
+  publicKey,
+  RpcAccount,
+  TransactionBuilder as UmiTransactionBuilder,
+} from "@metaplex-foundation/umi";
+import { createUmi } from "@metaplex-foundation/umi-bundle-defaults";
+import {
+  AccountInfo,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+
+// Umi builds the instructions, the JS SDK still signs and sends them so both
+// paths share the same transaction handling.
+
+export const createCandyMachineUmi = (connection: Connection) =>
+  createUmi(connection).use(mplCandyMachine()).use(mplTokenMetadata());
+
+export const toUmiPublicKey = (key: PublicKey) => publicKey(key.toBase58());
+
+export const toWeb3PublicKey = (key: string) => new PublicKey(key);
+
+export const toWeb3Instruction = (instruction: Instruction) =>
+  new TransactionInstruction({
+    programId: toWeb3PublicKey(instruction.programId),
+    keys: instruction.keys.map(({ pubkey, isSigner, isWritable }) => ({
+      pubkey: toWeb3PublicKey(pubkey),
+      isSigner,
+      isWritable,
+    })),
+    data: Buffer.from(instruction.data),
+  });
+
+/** Wraps the instructions of a Umi builder into a JS SDK builder. */
+export const toTransactionBuilder = <C extends object = object>(
+  builder: UmiTransactionBuilder,
+  signers: Signer[],
+  key: string
+) =>
+  TransactionBuilder.make<C>().add(
+    ...builder.getInstructions().map((instruction) => ({
+      instruction: toWeb3Instruction(instruction),
+      signers,
+      key,
+    }))
+  );
+
+/** Account from a web3.js subscription, in the shape Umi deserializers read. */
+export const toUmiAccount = (
+  address: PublicKey,
+  accountInfo: AccountInfo<Buffer>
+): RpcAccount => ({
+  publicKey: toUmiPublicKey(address),
+  executable: accountInfo.executable,
+  owner: toUmiPublicKey(accountInfo.owner),
+  lamports: lamports(accountInfo.lamports),
+  rentEpoch:
+    accountInfo.rentEpoch !== undefined
+      ? BigInt(accountInfo.rentEpoch)
+      : undefined,
+  data: new Uint8Array(accountInfo.data),
+});
@@ -0,0 +1,367 @@
+import { Metadata, Metaplex } from "@metaplex-foundation/js";
+import {
+  CandyGuard,
+  DefaultGuardSet,
+  safeFetchAllocationTrackerFromSeeds,
+} from "@metaplex-foundation/mpl-candy-machine";
+import { isSome, Umi } from "@metaplex-foundation/umi";
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import {
+  remoteThirdPartySigner,
+  ThirdPartySignerParams,
+} from "../helpers/thirdPartySigner";
+import {
+  AllocationLogics,
+  CandyGuardAccounts,
+  CustomCandyGuardMintSettings,
+  GuardGroup,
+  NftPaymentMintSettings,
+  TokenPayment$Gate,
+} from "./types";
+import { decodedError, guardError } from "./errors";
+import { fetchFreezeEscrow } from "./freeze";
+import { toUmiPublicKey, toWeb3PublicKey } from "./umi";
+import {
+  fetchMintLimit,
+  updateTokenSymbolAndDecimalsFromChainAsync,
+} from "./utils";
+
+/**
+ * Guards of a group as the v6 program reads them: group guards override the
+ * default ones.
+ */
+export const mergeUmiGuards = (
+  candyGuard: CandyGuard,
+  label: string = "default"
+): DefaultGuardSet => {
+  if (label === "default") return candyGuard.guards;
+  const group = candyGuard.groups.find((x) => x.label === label);
+  if (!group)
+    throw decodedError(`Guard group "${label}" not found.`, {
+      source: "candyGuard",
+      messageKey: "errors.groupNotFound",
+      params: { label },
+      retryable: false,
+    });
+  return Object.keys(candyGuard.guards).reduce(
+    (guards, name) =>
+      Object.assign(guards, {
+        [name]: isSome(group.guards[name])
+          ? group.guards[name]
+          : candyGuard.guards[name],
+      }),
+    {} as DefaultGuardSet
+  );
+};
+
+const tokenFromChain = async (
+  mx: Metaplex,
+  { mint, amount }: { mint: string; amount: bigint },
+  token2022?: boolean
+) => {
+  const token: TokenPayment$Gate = {
+    mint: toWeb3PublicKey(mint),
+    amount: Number(amount),
+    decimals: 0,
+    token2022,
+  };
+  await updateTokenSymbolAndDecimalsFromChainAsync(mx, token);
+  return token;
+};
+
+/** Allocation of a group with the mints counted by its tracker PDA. */
+const fetchAllocation = async (
+  umi: Umi,
+  candyMachine: CandyGuardAccounts,
+  { id, limit }: { id: number; limit: number }
+): Promise<AllocationLogics> => {
+  const allocation: AllocationLogics = { id, limit, minted: 0 };
+  await safeFetchAllocationTrackerFromSeeds(umi, {
+    id,
+    candyMachine: toUmiPublicKey(candyMachine.address),
+    candyGuard: toUmiPublicKey(candyMachine.candyGuard.address),
+  })
+    .then((tracker) => {
+      allocation.minted = tracker?.count ?? 0;
+      allocation.initialized = !!tracker;
+    })
+    .catch(console.error);
+  return allocation;
+};
+
+const nftsFromCollection = (nftHoldings: Metadata[], collection: string) => {
+  const requiredCollection = toWeb3PublicKey(collection);
+  return {
+    nfts: nftHoldings.filter((y) =>
+      y.collection?.address.equals(requiredCollection)
+    ),
+    requiredCollection,
+  };
+};
+
+/**
+ * `parseGuardGroup` for guards read with Umi, which also knows the guards
+ * the JS SDK can't parse (allocation, token2022Payment).
+ */
+export const parseUmiGuardGroup = async (
+  {
+    candyMachine,
+    guards,
+    label,
+    walletAddress,
+    nftHoldings,
+    verifyProof,
+    now = Date.now(),
+  }: {
+    guards: DefaultGuardSet;
+    candyMachine: CandyGuardAccounts;
+    walletAddress: PublicKey;
+    label?: string;
+    nftHoldings: Metadata[];
+    verifyProof: (merkleRoot: Uint8Array | string, label?: string) => boolean;
+    now?: number;
+  },
+  mx: Metaplex,
+  umi: Umi
+): Promise<GuardGroup> => {
+  const guardsParsed: GuardGroup = {};
+
+  if (isSome(guards.startDate)) {
+    const date = new Date(Number(guards.startDate.value.date) * 1000);
+    guardsParsed.startTime = date.getTime() > now ? date : null;
+  }
+
+  if (isSome(guards.endDate)) {
+    guardsParsed.endTime = new Date(Number(guards.endDate.value.date) * 1000);
+  }
+
+  if (isSome(guards.mintLimit)) {
+    const settings = guards.mintLimit.value;
+    guardsParsed.mintLimit = { settings };
+    await fetchMintLimit(mx, candyMachine, settings, walletAddress)
+      .then((mintLimit) => {
+        guardsParsed.mintLimit = mintLimit;
+      })
+      .catch(console.error);
+  }
+
+  if (isSome(guards.allocation)) {
+    guardsParsed.allocation = await fetchAllocation(
+      umi,
+      candyMachine,
+      guards.allocation.value
+    );
+  }
+
+  if (isSome(guards.redeemedAmount)) {
+    guardsParsed.redeemLimit = Number(guards.redeemedAmount.value.maximum);
+  }
+
+  // Payment guards, a group may combine a SOL and a token payment.
+  const solPayment = isSome(guards.solPayment)
+    ? guards.solPayment.value
+    : isSome(guards.freezeSolPayment)
+    ? guards.freezeSolPayment.value
+    : null;
+  if (solPayment) {
+    guardsParsed.payment = {
+      ...guardsParsed.payment,
+      sol: {
+        amount: Number(solPayment.lamports.basisPoints),
+        decimals: Math.log10(LAMPORTS_PER_SOL),
+      },
+    };
+  }
+
+  if (isSome(guards.tokenPayment)) {
+    guardsParsed.payment = {
+      ...guardsParsed.payment,
+      token: await tokenFromChain(mx, guards.tokenPayment.value),
+    };
+  }
+  if (isSome(guards.freezeTokenPayment)) {
+    guardsParsed.payment = {
+      ...guardsParsed.payment,
+      token: await tokenFromChain(mx, guards.freezeTokenPayment.value),
+    };
+  }
+  if (isSome(guards.token2022Payment)) {
+    guardsParsed.payment = {
+      ...guardsParsed.payment,
+      token: await tokenFromChain(mx, guards.token2022Payment.value, true),
+    };
+  }
+
+  if (isSome(guards.freezeSolPayment)) {
+    guardsParsed.freeze = {
+      destination: toWeb3PublicKey(guards.freezeSolPayment.value.destination),
+    };
+  } else if (isSome(guards.freezeTokenPayment)) {
+    guardsParsed.freeze = {
+      destination: toWeb3PublicKey(
+        guards.freezeTokenPayment.value.destinationAta
+      ),
+      mint: toWeb3PublicKey(guards.freezeTokenPayment.value.mint),
+    };
+  }
+  if (guardsParsed.freeze)
+    await fetchFreezeEscrow(umi, candyMachine, guardsParsed.freeze.destination)
+      .then((escrow) => {
+        guardsParsed.freeze.escrow = escrow;
+      })
+      .catch(console.error);
+
+  if (isSome(guards.nftPayment)) {
+    guardsParsed.payment = {
+      ...guardsParsed.payment,
+      ...nftsFromCollection(
+        nftHoldings,
+        guards.nftPayment.value.requiredCollection
+      ),
+    };
+  }
+
+  // Burn guards
+  if (isSome(guards.tokenBurn)) {
+    guardsParsed.burn = {
+      token: await tokenFromChain(mx, guards.tokenBurn.value),
+    };
+  }
+  if (isSome(guards.nftBurn)) {
+    guardsParsed.burn = nftsFromCollection(
+      nftHoldings,
+      guards.nftBurn.value.requiredCollection
+    );
+  }
+
+  // Gates
+  if (isSome(guards.tokenGate)) {
+    guardsParsed.gate = {
+      token: await tokenFromChain(mx, guards.tokenGate.value),
+    };
+  }
+  if (isSome(guards.nftGate)) {
+    guardsParsed.gate = nftsFromCollection(
+      nftHoldings,
+      guards.nftGate.value.requiredCollection
+    );
+  }
+
+  if (isSome(guards.addressGate))
+    guardsParsed.addressGate = toWeb3PublicKey(
+      guards.addressGate.value.address
+    );
+
+  if (isSome(guards.allowList)) {
+    guardsParsed.allowList = guards.allowList.value.merkleRoot;
+    guardsParsed.allowListed = verifyProof(
+      guards.allowList.value.merkleRoot,
+      label || "default"
+    );
+  }
+
+  if (isSome(guards.gatekeeper)) {
+    guardsParsed.gatekeeperNetwork = toWeb3PublicKey(
+      guards.gatekeeper.value.gatekeeperNetwork
+    );
+    guardsParsed.gatekeeperExpireOnUse = guards.gatekeeper.value.expireOnUse;
+  }
+
+  if (isSome(guards.thirdPartySigner)) {
+    guardsParsed.thirdPartySigner = toWeb3PublicKey(
+      guards.thirdPartySigner.value.signerKey
+    );
+  }
+
+  if (isSome(guards.botTax)) {
+    guardsParsed.botTax = {
+      lamports: Number(guards.botTax.value.lamports.basisPoints),
+      lastInstruction: guards.botTax.value.lastInstruction,
+    };
+  }
+
+  if (isSome(guards.programGate)) {
+    guardsParsed.programGate =
+      guards.programGate.value.additional.map(toWeb3PublicKey);
+  }
+
+  return guardsParsed;
+};
+
+/** `guardsToMintSettings` for guards read with Umi. */
+export const umiGuardsToMintSettings = ({
+  guards,
+  walletAddress,
+  nftGuards,
+  proof,
+  thirdPartySignerParams,
+}: {
+  guards: DefaultGuardSet;
+  walletAddress: PublicKey;
+  nftGuards?: NftPaymentMintSettings;
+  proof?: Uint8Array[];
+  thirdPartySignerParams?: ThirdPartySignerParams;
+}): CustomCandyGuardMintSettings => {
+  const mintSettings: CustomCandyGuardMintSettings = {};
+
+  if (isSome(guards.nftPayment)) {
+    if (!nftGuards?.payment)
+      throw guardError(
+        "nftPayment",
+        "errors.selectNft.pay",
+        "Select an NFT from the required collection to pay."
+      );
+    mintSettings.nftPayment = nftGuards.payment;
+  }
+
+  if (isSome(guards.nftBurn)) {
+    if (!nftGuards?.burn)
+      throw guardError(
+        "nftBurn",
+        "errors.selectNft.burn",
+        "Select an NFT from the required collection to burn."
+      );
+    mintSettings.nftBurn = nftGuards.burn;
+  }
+
+  if (isSome(guards.nftGate)) {
+    if (!nftGuards?.gate)
+      throw guardError(
+        "nftGate",
+        "errors.selectNft.gate",
+        "Select an NFT from the required collection to pass gate."
+      );
+    mintSettings.nftGate = nftGuards.gate;
+  }
+
+  if (isSome(guards.allowList)) {
+    if (!proof?.length)
+      throw guardError(
+        "allowList",
+        "errors.AddressNotFoundInAllowedList",
+        "Wallet is not on the allow list for this group."
+      );
+    mintSettings.allowList = { proof };
+  }
+
+  if (
+    isSome(guards.addressGate) &&
+    guards.addressGate.value.address !== walletAddress.toBase58()
+  )
+    throw guardError(
+      "addressGate",
+      "errors.AddressNotAuthorized",
+      "Wallet is not allowed to mint from this group."
+    );
+
+  if (isSome(guards.thirdPartySigner))
+    mintSettings.thirdPartySigner = {
+      signer: remoteThirdPartySigner(
+        toWeb3PublicKey(guards.thirdPartySigner.value.signerKey),
+        walletAddress,
+        thirdPartySignerParams
+      ),
+    };
+
+  return mintSettings;
+};
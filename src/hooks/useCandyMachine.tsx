@@ -0,0 +1,9 @@
+import { candyMachineSdk } from "../config";
+import useCandyMachineV3 from "./useCandyMachineV3";
+import useUmiCandyMachine from "./useUmiCandyMachine";
+
+// Picked once, hooks can't be swapped between renders
+const useCandyMachine =
+  candyMachineSdk === "umi" ? useUmiCandyMachine : useCandyMachineV3;
+
+export default useCandyMachine;
@@ -1,37 +1,28 @@
-import {
-  CandyMachine,
-  IdentitySigner,
-  Metadata,
-  Metaplex,
-  Nft,
-  NftWithToken,
-  PublicKey,
-  Sft,
-  SftWithToken,
-  walletAdapterIdentity,
-  sol,
-} from "@metaplex-foundation/js";
-import { Keypair, Transaction, Connection } from "@solana/web3.js";
+import { Metadata, PublicKey } from "@metaplex-foundation/js";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
 import React from "react";
-import { MerkleTree } from "../helpers/MerkleTree";
+import { ThirdPartySignerParams } from "../helpers/thirdPartySigner";
+import {
+  BaseCandyMachineClient,
+  CandyMachineClient,
+  GuardGroups,
+} from "./CandyMachineClient";
+import { maxTimeout } from "./clusterClock";
+import { decodeMintError } from "./errors";
+import { defaultMintComputeUnits } from "./priorityFees";
+import { TokenStandardInfo } from "./programmable";
 import {
   AllowLists,
-  CustomCandyGuardMintSettings,
-  GuardGroup,
   GuardGroupStates,
+  MintTransactionPhase,
   NftPaymentMintSettings,
   ParsedPricesForUI,
   Token,
 } from "./types";
-import {
-  fetchMintLimit,
-  guardToPaymentUtil,
-  mergeGuards,
-  parseGuardGroup,
-  parseGuardStates,
-} from "./utils";
+import { invalidateMintLimits } from "./utils";
+
+// How often the cluster clock offset is re-sampled
+const clockSyncInterval = 5 * 60_000;
 
 export default function useCandyMachineV3(
   candyMachineId: PublicKey | string,
@@ -40,107 +31,84 @@ export default function useCandyMachineV3(
   } = {}
 ) {
   const { connection } = useConnection();
-  const { publicKey, wallet, signTransaction } = useWallet();
-  const [guardsAndGroups, setGuardsAndGroups] = React.useState<{
-    default?: GuardGroup;
-    [k: string]: GuardGroup;
-  }>({});
+  const client = React.useMemo(
+    () =>
+      new CandyMachineClient(connection, candyMachineId, {
+        allowLists: candyMachineOpts.allowLists,
+      }),
+    [connection, candyMachineId, candyMachineOpts.allowLists]
+  );
+  return useCandyMachineClient(client);
+}
+
+/**
+ * React state around a candy machine client, whichever SDK loads the candy
+ * machine (`M`).
+ */
+export function useCandyMachineClient<M>(client: BaseCandyMachineClient<M>) {
+  const { publicKey, wallet, signAllTransactions } = useWallet();
+  const [guardsAndGroups, setGuardsAndGroups] = React.useState<GuardGroups>(
+    {}
+  );
 
   const [status, setStatus] = React.useState({
     candyMachine: false,
     guardGroups: false,
     minting: false,
+    verifyingAllowList: false,
     initialFetchGuardGroupsDone: false,
   });
 
+  // One entry per mint transaction of the current (or last) mint call.
+  const [mintProgress, setMintProgress] = React.useState<
+    MintTransactionPhase[]
+  >([]);
+  // Compute unit price of the last estimate and the units a mint needed.
+  const [priorityFee, setPriorityFee] = React.useState({
+    microLamports: 0,
+    computeUnits: defaultMintComputeUnits,
+  });
+
+  const updateMintProgress = React.useCallback(
+    (index: number, phase: MintTransactionPhase) =>
+      setMintProgress((x) => x.map((p, i) => (i === index ? phase : p))),
+    []
+  );
+
+  // Bumped by clock syncs and phase boundaries so guard states recompute.
+  const [clockTick, setClockTick] = React.useState(0);
+
   const [balance, setBalance] = React.useState(0);
   const [allTokens, setAllTokens] = React.useState<Token[]>([]);
   const [nftHoldings, setNftHoldings] = React.useState<Metadata[]>([]);
 
   const tokenHoldings = React.useMemo<Token[]>(() => {
-    if (!nftHoldings?.length || !allTokens?.length) return [];
+    if (!allTokens?.length) return [];
     return allTokens.filter(
       (x) => !nftHoldings.find((y) => x.mint.equals(y.address))
     );
   }, [nftHoldings, allTokens]);
 
-  const [candyMachine, setCandyMachine] = React.useState<CandyMachine>(null);
-  const [items, setItems] = React.useState({
-    available: 0,
-    remaining: 0,
-    redeemed: 0,
-  });
-
-  const mx = React.useMemo(() => {
-    const metaplex = connection && Metaplex.make(connection);
-    return metaplex;
-  }, [connection]);
-
-  const proofMemo = React.useMemo(() => {
-    if (!candyMachineOpts.allowLists?.length) {
-      return {
-        merkles: {},
-        verifyProof() {
-          return true;
-        },
-      };
-    }
-    if (!publicKey) {
-      return {
-        merkles: {},
-        verifyProof() {
-          return false;
-        },
-      };
-    }
-
-    const merkles: { [k: string]: { tree: MerkleTree<string>; proof: Buffer[] } } =
-      candyMachineOpts.allowLists.reduce(
-        (prev, { groupLabel, list }) => {
-          // Convert list elements to strings
-          const stringList = list.map((item) =>
-            typeof item === "string" ? item : Buffer.from(item).toString("hex")
-          );
-          const tree = new MerkleTree<string>(stringList);
-          const leaf = publicKey.toString();
-          const leafIndex = stringList.indexOf(leaf);
-          const proof = leafIndex !== -1 ? tree.getProof(leafIndex) : [];
-          return Object.assign(prev, {
-            [groupLabel]: {
-              tree,
-              proof,
-            },
-          });
-        },
-        {}
-      );
-
-    const verifyProof = (merkleRoot: Uint8Array | string, label = "default") => {
-      const merkle = merkles[label];
-      if (!merkle) return false;
-      const root = Buffer.from(merkleRoot);
-      const stringList = candyMachineOpts.allowLists
-        .find((al) => al.groupLabel === label)
-        ?.list.map((item) =>
-          typeof item === "string" ? item : Buffer.from(item).toString("hex")
-        ) || [];
-      const leafIndex = stringList.indexOf(publicKey.toString());
-      if (leafIndex === -1) return false;
-      return merkle.tree.verifyProof(leafIndex, merkle.proof, root);
-    };
-
-    return {
-      merkles,
-      verifyProof,
-    };
-  }, [publicKey, candyMachineOpts.allowLists]);
+  const [candyMachine, setCandyMachine] = React.useState<M>(null);
+  // Bumped when guard groups have to be parsed again: a fresh fetch or a
+  // candy guard update. Candy machine writes (every mint) only move the
+  // counters, the items and states are recomputed from the decoded account.
+  const [guardsVersion, setGuardsVersion] = React.useState(0);
+  // NonFungible or ProgrammableNonFungible, with the pNFT rule set
+  const [tokenStandard, setTokenStandard] =
+    React.useState<TokenStandardInfo>(null);
+  const items = React.useMemo(
+    () =>
+      candyMachine
+        ? client.getItems(candyMachine)
+        : { available: 0, remaining: 0, redeemed: 0 },
+    [client, candyMachine]
+  );
 
-  const fetchCandyMachine = React.useCallback(async () => {
-    if (!publicKey) throw new Error("Wallet not loaded yet!");
-    return await mx.candyMachines().findByAddress({
-      address: new PublicKey(candyMachineId),
-    });
-  }, [candyMachineId, publicKey, mx]);
+  const proofMemo = React.useMemo(
+    () => client.getAllowListProofs(publicKey),
+    [client, publicKey]
+  );
 
   const refresh = React.useCallback(async () => {
     if (!publicKey) {
@@ -149,18 +117,16 @@ export default function useCandyMachineV3(
     }
 
     setStatus((x) => ({ ...x, candyMachine: true }));
-    await fetchCandyMachine()
-      .then((cndy) => {
-        setCandyMachine(cndy);
-        setItems({
-          available: cndy.itemsAvailable.toNumber(),
-          remaining: cndy.itemsRemaining.toNumber(),
-          redeemed: cndy.itemsMinted.toNumber(),
-        });
+    await client
+      .fetchCandyMachine()
+      .then((x) => {
+        setCandyMachine(x);
+        setTokenStandard(client.tokenStandard);
+        setGuardsVersion((v) => v + 1);
       })
       .catch((e) => console.error("Error while fetching candy machine", e))
       .finally(() => setStatus((x) => ({ ...x, candyMachine: false })));
-  }, [fetchCandyMachine, publicKey]);
+  }, [client, publicKey]);
 
   const mint = React.useCallback(
     async (
@@ -168,6 +134,7 @@ export default function useCandyMachineV3(
       opts: {
         groupLabel?: string;
         nftGuards?: NftPaymentMintSettings[];
+        thirdPartySigner?: ThirdPartySignerParams;
       } = {}
     ) => {
       const groupLabel = opts.groupLabel || "default";
@@ -176,105 +143,87 @@ export default function useCandyMachineV3(
         throw new Error(`Unknown guard group label: ${groupLabel}`);
       }
 
-      let nfts: (Sft | SftWithToken | Nft | NftWithToken)[] = [];
+      let nfts: Awaited<ReturnType<BaseCandyMachineClient<M>["mint"]>> = [];
       try {
         if (!candyMachine) throw new Error("Candy Machine not loaded yet!");
-        if (!signTransaction) throw new Error("Wallet signing not available!");
+        if (!signAllTransactions)
+          throw new Error("Wallet signing not available!");
         if (!publicKey) throw new Error("Wallet public key not available!");
 
         setStatus((x) => ({ ...x, minting: true }));
+        setMintProgress(
+          [...Array(quantityString)].map(() => ({ phase: "preparing" }))
+        );
 
-        const treasury = new PublicKey("94FEw5KdMSSuqENzUTUnM1sNXJXQgnArWz9SevJTBmkA");
-        const mintArgs = {
-          candyMachine,
-          collectionUpdateAuthority: candyMachine.authorityAddress,
-          group: groupLabel === "default" ? null : groupLabel,
-          guards: {
-            solPayment: {
-              amount: sol(0.4),
-              destination: treasury,
-            },
-          },
-        };
-
-        console.log("Mint args:", JSON.stringify(mintArgs, null, 2));
         console.log("Wallet publicKey:", publicKey.toString());
-        console.log("Connection RPC:", connection.rpcEndpoint);
-
-        const { nft, response } = await mx
-          .candyMachines()
-          .mint(mintArgs, {
-            payer: mx.identity(),
-            commitment: "finalized",
-          });
-        const signature = response.signature;
-
-        console.log("Transaction signature:", signature);
-        console.log("Minted NFT:", JSON.stringify(nft, null, 2));
-
-        nfts = [nft];
-        Object.values(guardsAndGroups).forEach((guards) => {
-          if (guards.mintLimit?.mintCounter)
-            guards.mintLimit.mintCounter.count += nfts.length;
+        console.log("Connection RPC:", client.connection.rpcEndpoint);
+
+        nfts = await client.mint(quantityString, {
+          ...opts,
+          onProgress: updateMintProgress,
+          onVerifyingAllowList: (verifyingAllowList) =>
+            setStatus((x) => ({ ...x, verifyingAllowList })),
+          onPriorityFee: ({ microLamports, computeUnits }) =>
+            setPriorityFee((x) => ({
+              microLamports,
+              computeUnits: computeUnits ?? x.computeUnits,
+            })),
         });
       } catch (error: any) {
         console.error("Minting failed:", error);
-        let message = error.message || "Minting failed! Please try again!";
-        if (error instanceof Error && error.name === "WalletSignTransactionError") {
-          message = `Wallet signing error: ${error.message}`;
-        } else if (error.code === 429) {
-          message = "RPC rate limit exceeded. Retrying...";
-        } else if (error.message?.includes("0x135")) {
-          message = "Insufficient funds to mint. Please fund your wallet.";
-        } else if (error.message?.includes("0x137")) {
-          message = "SOLD OUT!";
-        }
-        throw new Error(message);
+        const decoded = decodeMintError(error);
+        setMintProgress((x) =>
+          x.map((p) =>
+            ["confirmed", "fetched", "failed"].includes(p.phase)
+              ? p
+              : { phase: "failed", error: decoded }
+          )
+        );
+        // Rethrown as is so callers can decode the program error themselves.
+        throw error;
       } finally {
         setStatus((x) => ({ ...x, minting: false }));
         refresh();
       }
-      return nfts.filter((a) => a);
+      return nfts;
     },
-    [candyMachine, guardsAndGroups, mx, publicKey, refresh, signTransaction, connection]
+    [
+      candyMachine,
+      guardsAndGroups,
+      client,
+      publicKey,
+      refresh,
+      signAllTransactions,
+      updateMintProgress,
+    ]
   );
 
   React.useEffect(() => {
-    if (!mx || !publicKey || !wallet?.adapter) return;
-    console.log("useEffect([mx, publicKey])");
-    mx.use(walletAdapterIdentity(wallet.adapter));
-
-    mx.rpc()
-      .getBalance(publicKey)
-      .then((x) => x.basisPoints.toNumber())
-      .then(setBalance)
-      .catch((e) => console.error("Error to fetch wallet balance", e));
-
-    mx.nfts()
-      .findAllByOwner({
-        owner: publicKey,
+    // Nothing from the previous wallet may leak into the next one.
+    setBalance(0);
+    setNftHoldings([]);
+    setAllTokens([]);
+    setGuardsAndGroups({});
+    setStatus((x) => ({ ...x, initialFetchGuardGroupsDone: false }));
+    invalidateMintLimits();
+    if (!client || !publicKey || !wallet?.adapter) return;
+    console.log("useEffect([client, publicKey])");
+    client.setIdentity(wallet.adapter);
+
+    let current = true;
+    client
+      .fetchWalletHoldings(publicKey)
+      .then(({ balance, nftHoldings, tokens }) => {
+        if (!current) return;
+        setBalance(balance);
+        setNftHoldings(nftHoldings);
+        setAllTokens(tokens);
       })
-      .then((x) =>
-        setNftHoldings(x.filter((a) => a.model === "metadata") as any)
-      )
-      .catch((e) => console.error("Failed to fetch wallet nft holdings", e));
-
-    (async (walletAddress: PublicKey): Promise<Token[]> => {
-      const tokenAccounts = (
-        await connection.getParsedTokenAccountsByOwner(walletAddress, {
-          programId: TOKEN_PROGRAM_ID,
-        })
-      ).value.filter(
-        (x) => parseInt(x.account.data.parsed.info.tokenAmount.amount) > 1
-      );
-
-      return tokenAccounts.map((x) => ({
-        mint: new PublicKey(x.account.data.parsed.info.mint),
-        balance: parseInt(x.account.data.parsed.info.tokenAmount.amount),
-        decimals: x.account.data.parsed.info.tokenAmount.decimals,
-      }));
-    })(publicKey).then(setAllTokens);
-  }, [mx, publicKey, wallet, connection]);
+      .catch((e) => console.error("Failed to fetch wallet holdings", e));
+    return () => {
+      current = false;
+    };
+  }, [client, publicKey, wallet]);
 
   React.useEffect(() => {
     if (!publicKey) return;
@@ -282,42 +231,53 @@ export default function useCandyMachineV3(
     refresh().catch((e) =>
       console.error("Error while fetching candy machine", e)
     );
-  }, [refresh, publicKey, mx]); // Fixed: Added mx
+  }, [refresh, publicKey]);
+
+  // Keep counters and guards live while other wallets mint.
+  const candyMachineAddress = candyMachine
+    ? client.candyMachineId.toString()
+    : undefined;
+  const candyGuardAddress = candyMachine
+    ? client.candyGuardAddress?.toString()
+    : undefined;
+  React.useEffect(() => {
+    if (!client || !candyMachineAddress) return;
+    return client.subscribe((candyMachine, account) => {
+      setCandyMachine(candyMachine);
+      if (account === "candyGuard") setGuardsVersion((v) => v + 1);
+    });
+  }, [client, candyMachineAddress, candyGuardAddress]);
 
+  // Estimate shown before minting, re-estimated when a mint starts.
   React.useEffect(() => {
-    if (!publicKey || !candyMachine) return;
+    if (!client || !candyGuardAddress) return;
+    let mounted = true;
+    client
+      .estimatePriorityFee()
+      .then(
+        (microLamports) =>
+          mounted && setPriorityFee((x) => ({ ...x, microLamports }))
+      );
+    return () => {
+      mounted = false;
+    };
+  }, [client, candyMachineAddress, candyGuardAddress]);
+
+  React.useEffect(() => {
+    if (!publicKey || !candyMachineAddress) return;
     console.log("Fetching guard groups...");
 
+    let current = true;
     (async () => {
       setStatus((x) => ({ ...x, guardGroups: true }));
       try {
-        const guards = {
-          default: await parseGuardGroup(
-            {
-              guards: candyMachine.candyGuard.guards,
-              candyMachine,
-              nftHoldings,
-              verifyProof: proofMemo.verifyProof,
-              walletAddress: publicKey,
-            },
-            mx
-          ),
-        };
-        await Promise.all(
-          candyMachine.candyGuard.groups.map(async (x) => {
-            guards[x.label] = await parseGuardGroup(
-              {
-                guards: mergeGuards([candyMachine.candyGuard.guards, x.guards]),
-                label: x.label,
-                candyMachine,
-                nftHoldings,
-                verifyProof: proofMemo.verifyProof,
-                walletAddress: publicKey,
-              },
-              mx
-            );
-          })
-        );
+        const guards = await client.fetchGuardGroups({
+          walletAddress: publicKey,
+          nftHoldings,
+          verifyProof: proofMemo.verifyProof,
+        });
+        // A newer fetch (other wallet, holdings or guards) superseded it.
+        if (!current) return;
         console.log("Guard groups fetched:", guards);
         setGuardsAndGroups(guards || { default: {} }); // Fallback to empty default
         setStatus((x) => ({
@@ -326,56 +286,102 @@ export default function useCandyMachineV3(
           guardGroups: false,
         }));
       } catch (e) {
+        if (!current) return;
         console.error("Error fetching guard groups: ", e);
         setGuardsAndGroups({ default: {} }); // Fallback on error
         setStatus((x) => ({ ...x, guardGroups: false }));
       }
     })();
-  }, [publicKey, nftHoldings, proofMemo, candyMachine]);
+    return () => {
+      current = false;
+    };
+  }, [
+    client,
+    publicKey,
+    nftHoldings,
+    proofMemo,
+    candyMachineAddress,
+    guardsVersion,
+  ]);
 
-  const prices = React.useMemo((): {
-    default?: ParsedPricesForUI;
-    [k: string]: ParsedPricesForUI;
-  } => {
-    return Object.entries(guardsAndGroups).reduce(
-      (groupPayments, [label, guards]) => {
-        return Object.assign(groupPayments, {
-          [label]: guardToPaymentUtil(guards),
-        });
-      },
-      {}
+  React.useEffect(() => {
+    const unsubscribe = client.clock.subscribe(() =>
+      setClockTick((x) => x + 1)
     );
-  }, [guardsAndGroups]);
+    const sync = () =>
+      client.clock
+        .sync()
+        .catch((e) => console.error("Failed to sync cluster time", e));
+    sync();
+    const timer = setInterval(sync, clockSyncInterval);
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [client]);
 
-  const guardStates = React.useMemo((): {
-    default?: GuardGroupStates;
-    [k: string]: GuardGroupStates;
-  } => {
-    return Object.entries(guardsAndGroups).reduce(
-      (groupPayments, [label, guards]) =>
-        Object.assign(groupPayments, {
-          [label]: parseGuardStates({
-            guards: guards,
-            candyMachine,
-            walletAddress: publicKey,
-            tokenHoldings,
-            balance,
-          }),
-        }),
-      {}
+  // Start and end dates are checked against the cluster clock, recompute
+  // the states as soon as the next one passes.
+  React.useEffect(() => {
+    const now = client.clock.now();
+    const next = Object.values(guardsAndGroups)
+      .flatMap((x) => [x.startTime, x.endTime])
+      .map((x) => x?.getTime())
+      .filter((x) => x > now)
+      .sort((a, b) => a - b)[0];
+    if (!next) return;
+    const timer = setTimeout(
+      () => setClockTick((x) => x + 1),
+      Math.min(next - now + 1000, maxTimeout)
     );
-  }, [guardsAndGroups, tokenHoldings, balance, candyMachine, publicKey]);
+    return () => clearTimeout(timer);
+  }, [client, guardsAndGroups, clockTick]);
+
+  const prices = React.useMemo(
+    (): {
+      default?: ParsedPricesForUI;
+      [k: string]: ParsedPricesForUI;
+    } => client.getPrices(guardsAndGroups),
+    [client, guardsAndGroups]
+  );
+
+  const guardStates = React.useMemo(
+    (): {
+      default?: GuardGroupStates;
+      [k: string]: GuardGroupStates;
+    } =>
+      client.getGuardStates(guardsAndGroups, {
+        walletAddress: publicKey,
+        tokenHoldings,
+        balance,
+      }),
+    // candyMachine keeps the states in sync with live account updates
+    [
+      client,
+      guardsAndGroups,
+      tokenHoldings,
+      balance,
+      candyMachine,
+      publicKey,
+      clockTick,
+    ]
+  );
 
   React.useEffect(() => {
     console.log({ guardsAndGroups, guardStates, prices });
   }, [guardsAndGroups, guardStates, prices]);
 
   return {
+    client,
     candyMachine,
+    tokenStandard,
     guards: guardsAndGroups,
     guardStates,
     status,
+    mintProgress,
+    priorityFee,
     items,
+    nftHoldings,
     merkles: proofMemo.merkles,
     prices,
     mint,
@@ -0,0 +1,134 @@
+import { GatewayStatus, useGateway } from "@civic/solana-gateway-react";
+import React from "react";
+import { gatekeeperPassUrl } from "../config";
+import { decodedError } from "./errors";
+
+export type GatekeeperPassState =
+  | "checking"
+  | "not-requested"
+  | "in-review"
+  | "active"
+  | "expired"
+  | "revoked"
+  | "frozen"
+  | "rejected"
+  | "error";
+
+const passStates: { [k in GatewayStatus]: GatekeeperPassState } = {
+  [GatewayStatus.UNKNOWN]: "checking",
+  [GatewayStatus.CHECKING]: "checking",
+  [GatewayStatus.NOT_REQUESTED]: "not-requested",
+  [GatewayStatus.COLLECTING_USER_INFORMATION]: "in-review",
+  [GatewayStatus.PROOF_OF_WALLET_OWNERSHIP]: "in-review",
+  [GatewayStatus.VALIDATING_USER_INFORMATION]: "in-review",
+  [GatewayStatus.USER_INFORMATION_VALIDATED]: "in-review",
+  [GatewayStatus.IN_REVIEW]: "in-review",
+  [GatewayStatus.ACTIVE]: "active",
+  [GatewayStatus.REFRESH_TOKEN_REQUIRED]: "expired",
+  [GatewayStatus.REVOKED]: "revoked",
+  [GatewayStatus.FROZEN]: "frozen",
+  [GatewayStatus.REJECTED]: "rejected",
+  [GatewayStatus.USER_INFORMATION_REJECTED]: "rejected",
+  [GatewayStatus.ERROR]: "error",
+  [GatewayStatus.LOCATION_NOT_SUPPORTED]: "error",
+  [GatewayStatus.VPN_NOT_SUPPORTED]: "error",
+};
+
+// States the pass can't leave by itself, a mint waiting on it gives up.
+const deadEnds: GatekeeperPassState[] = [
+  "revoked",
+  "frozen",
+  "rejected",
+  "error",
+];
+
+// A consumed pass is noticed through the token subscription, give it a
+// moment before giving up on it.
+const passUseTimeout = 30_000;
+
+// How long a requested pass may take to be issued, review included.
+const passRequestTimeout = 5 * 60_000;
+
+/**
+ * Gatekeeper pass of the wallet for the network of the `GatewayProvider`
+ * around it. Passes come from Civic's flow unless `gatekeeperPassUrl` points
+ * to the gatekeeper of another network.
+ */
+export default function useGatekeeperPass() {
+  const { requestGatewayToken, gatewayStatus, gatewayToken } = useGateway();
+  const state = passStates[gatewayStatus] ?? "checking";
+
+  const stateRef = React.useRef(state);
+  const listeners = React.useRef(new Set<() => void>());
+  React.useEffect(() => {
+    stateRef.current = state;
+    listeners.current.forEach((listener) => listener());
+  }, [state]);
+
+  // Resolves on the first state matching, immediately if it already does.
+  const waitFor = React.useCallback(
+    (matches: (state: GatekeeperPassState) => boolean, timeout?: number) =>
+      new Promise<GatekeeperPassState>((resolve) => {
+        const check = () => {
+          if (!matches(stateRef.current)) return;
+          done();
+        };
+        const done = () => {
+          listeners.current.delete(check);
+          clearTimeout(timer);
+          resolve(stateRef.current);
+        };
+        const timer = timeout ? setTimeout(done, timeout) : undefined;
+        listeners.current.add(check);
+        check();
+      }),
+    []
+  );
+
+  const requestPass = React.useCallback(async () => {
+    if (gatekeeperPassUrl) window.open(gatekeeperPassUrl, "_blank");
+    else await requestGatewayToken();
+  }, [requestGatewayToken]);
+
+  /**
+   * Requests a pass when there is no active one and waits until it is.
+   * Gives up on a dead end, on a return to the state it started from (flow
+   * closed before the pass was issued) or after `passRequestTimeout`.
+   */
+  const ensureActivePass = React.useCallback(async () => {
+    const start = stateRef.current;
+    if (start === "active") return;
+    await requestPass();
+    let progressed = false;
+    const reached = await waitFor((x) => {
+      if (x !== start && x !== "checking") progressed = true;
+      return (
+        x === "active" || deadEnds.includes(x) || (progressed && x === start)
+      );
+    }, passRequestTimeout);
+    if (reached !== "active")
+      throw decodedError(`Gatekeeper pass ${reached}.`, {
+        source: "unknown",
+        guard: "gatekeeper",
+        messageKey: "errors.gatekeeperPass",
+        paramKeys: { state: `gatekeeper.state.${reached}` },
+        retryable: true,
+      });
+  }, [requestPass, waitFor]);
+
+  /** Waits until a pass used by an `expireOnUse` mint shows as expired. */
+  const waitForPassUsed = React.useCallback(
+    () => waitFor((x) => x !== "active", passUseTimeout),
+    [waitFor]
+  );
+
+  return {
+    state,
+    expiryTime: gatewayToken?.expiryTime
+      ? new Date(gatewayToken.expiryTime * 1000)
+      : undefined,
+    requestPass,
+    ensureActivePass,
+    waitForPassUsed,
+  };
+}
@@ -0,0 +1,27 @@
+import { PublicKey } from "@metaplex-foundation/js";
+import { useConnection } from "@solana/wallet-adapter-react";
+import React from "react";
+import { AllowLists } from "./types";
+import { UmiCandyMachineClient } from "./UmiCandyMachineClient";
+import { useCandyMachineClient } from "./useCandyMachineV3";
+
+/**
+ * `useCandyMachineV3` backed by Umi, for candy machines using guards the JS
+ * SDK can't parse.
+ */
+export default function useUmiCandyMachine(
+  candyMachineId: PublicKey | string,
+  candyMachineOpts: {
+    allowLists?: AllowLists;
+  } = {}
+) {
+  const { connection } = useConnection();
+  const client = React.useMemo(
+    () =>
+      new UmiCandyMachineClient(connection, candyMachineId, {
+        allowLists: candyMachineOpts.allowLists,
+      }),
+    [connection, candyMachineId, candyMachineOpts.allowLists]
+  );
+  return useCandyMachineClient(client);
+}
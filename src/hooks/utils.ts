@@ -1,19 +1,37 @@
 import { CandyMachine, Metaplex } from "@metaplex-foundation/js";
 import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import {
+  ExtensionType,
+  getExtensionData,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  unpackMint,
+} from "@solana/spl-token";
+import { unpack as unpackTokenMetadata } from "@solana/spl-token-metadata";
+import { Umi } from "@metaplex-foundation/umi";
 import { MintCounterBorsh } from "../borsh/mintCounter";
 import {
+  remoteThirdPartySigner,
+  ThirdPartySignerParams,
+} from "../helpers/thirdPartySigner";
+import { createTtlCache } from "./cache";
+import { decodedError, guardError } from "./errors";
+import { fetchFreezeEscrow } from "./freeze";
+import {
+  CandyGuardAccounts,
+  CustomCandyGuardMintSettings,
+  EligibilityGuard,
+  EligibilityReason,
+  GuardEligibility,
   GuardGroup,
   GuardGroupStates,
   MintLimitLogics,
+  NftPaymentMintSettings,
   ParsedPricesForUI,
   Token,
   TokenPayment$Gate,
 } from "./types";
-import {
-  DefaultCandyGuardSettings,
-  Metadata,
-  SplTokenCurrency,
-} from "@metaplex-foundation/js";
+import { DefaultCandyGuardSettings, Metadata } from "@metaplex-foundation/js";
 
 export const guardToPaymentUtil = (guards: GuardGroup): ParsedPricesForUI => {
   const paymentsRequired: ParsedPricesForUI = {
@@ -22,6 +40,13 @@ export const guardToPaymentUtil = (guards: GuardGroup): ParsedPricesForUI => {
     burn: [],
   };
   if (!guards) return paymentsRequired;
+  if (guards.botTax) {
+    paymentsRequired.botTax = {
+      label: "SOL",
+      price: guards.botTax.lamports / LAMPORTS_PER_SOL,
+      kind: "sol",
+    };
+  }
   // console.log("guardToPaymentUtil", { guards });
   const actions: ("payment" | "burn" | "gate")[] = ["payment", "burn", "gate"];
   if (actions.find((action) => guards[action])) {
@@ -30,6 +55,7 @@ export const guardToPaymentUtil = (guards: GuardGroup): ParsedPricesForUI => {
         label: "SOL",
         price: guards.payment.sol.amount / LAMPORTS_PER_SOL,
         kind: "sol",
+        escrow: !!guards.freeze,
       });
     }
 
@@ -42,6 +68,7 @@ export const guardToPaymentUtil = (guards: GuardGroup): ParsedPricesForUI => {
           decimals: guards[action].token.decimals,
           mint: guards[action].token.mint,
           kind: "token",
+          escrow: action === "payment" && !!guards.freeze,
         });
       }
       if (guards[action]?.nfts?.length) {
@@ -57,47 +84,51 @@ export const guardToPaymentUtil = (guards: GuardGroup): ParsedPricesForUI => {
   return paymentsRequired;
 };
 
-export const mintLimitCaches: { [k: string]: Promise<MintLimitLogics> } = {};
+const mintLimitCache = createTtlCache<MintLimitLogics>(30_000);
+
+const mintLimitCacheKey = (
+  candyMachine: CandyGuardAccounts,
+  id: number,
+  walletAddress: PublicKey
+) => `${id}-${candyMachine.candyGuard.address.toString()}-${walletAddress}`;
+
+/**
+ * Drops cached mint counters so the next read comes from the MintCounter PDA,
+ * for one wallet or for every wallet when none is given.
+ */
+export const invalidateMintLimits = (walletAddress?: PublicKey) =>
+  mintLimitCache.invalidate(
+    (key) => !walletAddress || key.endsWith(`-${walletAddress}`)
+  );
 
 export const fetchMintLimit = (
   mx: Metaplex,
-  candyMachine: CandyMachine,
+  candyMachine: CandyGuardAccounts,
   guardsInput$mintLimit,
-  rerenderer?: () => void
-): Promise<MintLimitLogics> => {
-  const cacheKey = `${
-    guardsInput$mintLimit.id
-  }-${candyMachine.candyGuard.address.toString()}-${mx
-    .identity()
-    .publicKey.toString()}`;
-  if (!mintLimitCaches[cacheKey]) {
-    mintLimitCaches[cacheKey] = (async () => {
+  walletAddress: PublicKey
+): Promise<MintLimitLogics> =>
+  mintLimitCache.get(
+    mintLimitCacheKey(candyMachine, guardsInput$mintLimit.id, walletAddress),
+    async () => {
       const mintLimit: MintLimitLogics = {
         settings: guardsInput$mintLimit,
       };
-      if (!mintLimit.pda)
-        mintLimit.pda = await mx.candyMachines().pdas().mintLimitCounter({
-          candyGuard: candyMachine.candyGuard.address,
-          id: guardsInput$mintLimit.id,
-          candyMachine: candyMachine.address,
-          user: mx.identity().publicKey,
-        });
-      if (mintLimit.pda) {
-        mintLimit.accountInfo = await mx.connection.getAccountInfo(
-          mintLimit.pda
+      mintLimit.pda = mx.candyMachines().pdas().mintLimitCounter({
+        candyGuard: candyMachine.candyGuard.address,
+        id: guardsInput$mintLimit.id,
+        candyMachine: candyMachine.address,
+        user: walletAddress,
+      });
+      mintLimit.accountInfo = await mx.connection.getAccountInfo(
+        mintLimit.pda
+      );
+      if (mintLimit.accountInfo)
+        mintLimit.mintCounter = MintCounterBorsh.fromBuffer(
+          mintLimit.accountInfo.data
         );
-        if (mintLimit.accountInfo)
-          mintLimit.mintCounter = MintCounterBorsh.fromBuffer(
-            mintLimit.accountInfo.data
-          );
-      }
-      if (rerenderer) setTimeout(() => rerenderer(), 100);
-
       return mintLimit;
-    })();
-  }
-  return mintLimitCaches[cacheKey];
-};
+    }
+  );
 
 export const mergeGuards = (guardsArray: DefaultCandyGuardSettings[]) => {
   const guards: DefaultCandyGuardSettings = guardsArray.reduce(
@@ -114,6 +145,111 @@ export const mergeGuards = (guardsArray: DefaultCandyGuardSettings[]) => {
   return guards;
 };
 
+export const getGroupGuards = (
+  candyMachine: CandyMachine,
+  label?: string
+): DefaultCandyGuardSettings => {
+  if (!candyMachine.candyGuard)
+    throw decodedError("Candy Machine has no candy guard attached.", {
+      source: "candyMachine",
+      messageKey: "errors.noCandyGuard",
+      retryable: false,
+    });
+  const groupLabel = label || "default";
+  if (groupLabel === "default") return candyMachine.candyGuard.guards;
+  const group = candyMachine.candyGuard.groups.find(
+    (x) => x.label === groupLabel
+  );
+  if (!group)
+    throw decodedError(`Guard group "${groupLabel}" not found.`, {
+      source: "candyGuard",
+      messageKey: "errors.groupNotFound",
+      params: { label: groupLabel },
+      retryable: false,
+    });
+  return mergeGuards([candyMachine.candyGuard.guards, group.guards]);
+};
+
+export const guardsToMintSettings = ({
+  candyMachine,
+  label,
+  walletAddress,
+  nftGuards,
+  proof,
+  thirdPartySignerParams,
+}: {
+  candyMachine: CandyMachine;
+  label?: string;
+  walletAddress: PublicKey;
+  nftGuards?: NftPaymentMintSettings;
+  proof?: Uint8Array[];
+  thirdPartySignerParams?: ThirdPartySignerParams;
+}): CustomCandyGuardMintSettings => {
+  const guards = getGroupGuards(candyMachine, label);
+
+  // solPayment and tokenPayment destinations are read by the mint builder
+  // straight from the candy guard, so they need no mint settings here.
+  const mintSettings: CustomCandyGuardMintSettings = {};
+
+  if (guards.nftPayment) {
+    if (!nftGuards?.payment)
+      throw guardError(
+        "nftPayment",
+        "errors.selectNft.pay",
+        "Select an NFT from the required collection to pay."
+      );
+    mintSettings.nftPayment = nftGuards.payment;
+  }
+
+  if (guards.nftBurn) {
+    if (!nftGuards?.burn)
+      throw guardError(
+        "nftBurn",
+        "errors.selectNft.burn",
+        "Select an NFT from the required collection to burn."
+      );
+    mintSettings.nftBurn = nftGuards.burn;
+  }
+
+  if (guards.nftGate) {
+    if (!nftGuards?.gate)
+      throw guardError(
+        "nftGate",
+        "errors.selectNft.gate",
+        "Select an NFT from the required collection to pass gate."
+      );
+    mintSettings.nftGate = nftGuards.gate;
+  }
+
+  if (guards.allowList) {
+    if (!proof?.length)
+      throw guardError(
+        "allowList",
+        "errors.AddressNotFoundInAllowedList",
+        "Wallet is not on the allow list for this group."
+      );
+    mintSettings.allowList = { proof };
+  }
+
+  if (guards.addressGate && !guards.addressGate.address.equals(walletAddress))
+    throw guardError(
+      "addressGate",
+      "errors.AddressNotAuthorized",
+      "Wallet is not allowed to mint from this group."
+    );
+
+  if (guards.thirdPartySigner)
+    mintSettings.thirdPartySigner = {
+      signer: remoteThirdPartySigner(
+        guards.thirdPartySigner.signerKey,
+        walletAddress,
+        thirdPartySignerParams
+      ),
+    };
+
+  return mintSettings;
+};
+
 export const parseGuardGroup = async (
   {
     candyMachine,
@@ -122,6 +258,7 @@ export const parseGuardGroup = async (
     walletAddress,
     nftHoldings,
     verifyProof,
+    now = Date.now(),
   }: {
     guards: DefaultCandyGuardSettings;
     candyMachine: CandyMachine;
@@ -132,15 +269,18 @@ export const parseGuardGroup = async (
     nftHoldings: Metadata[];
     verifyProof: (merkleRoot: Uint8Array | string, label?: string) => boolean;
     // tokenHoldings, nftHoldings
+    // Cluster time in ms, see `createClusterClock`
+    now?: number;
   },
-  mx?: Metaplex
+  mx?: Metaplex,
+  umi?: Umi
 ): Promise<GuardGroup> => {
   const guardsParsed: GuardGroup = {};
   //   console.log(guardsInput);
   // Check for start date
   if (guardsInput.startDate) {
     const date = new Date(guardsInput.startDate.date.toNumber() * 1000);
-    if (date.getTime() > Date.now()) {
+    if (date.getTime() > now) {
       guardsParsed.startTime = date;
     } else {
       guardsParsed.startTime = null;
@@ -156,7 +296,12 @@ export const parseGuardGroup = async (
   if (guardsInput.mintLimit) {
     guardsParsed.mintLimit = { settings: guardsInput.mintLimit };
     if (mx)
-      await fetchMintLimit(mx, candyMachine, guardsInput.mintLimit)
+      await fetchMintLimit(
+        mx,
+        candyMachine,
+        guardsInput.mintLimit,
+        walletAddress
+      )
         .then((mintLimit) => {
           guardsParsed.mintLimit = mintLimit;
         })
@@ -210,6 +355,45 @@ export const parseGuardGroup = async (
       guardsParsed.payment.token
     );
   }
+  // Freeze payments are paid like the plain ones but held in escrow
+  if (guardsInput.freezeSolPayment) {
+    guardsParsed.payment = {
+      sol: {
+        amount: guardsInput.freezeSolPayment.amount.basisPoints.toNumber(),
+        decimals: guardsInput.freezeSolPayment.amount.currency.decimals,
+      },
+    };
+    guardsParsed.freeze = {
+      destination: guardsInput.freezeSolPayment.destination,
+    };
+  }
+
+  if (guardsInput.freezeTokenPayment) {
+    guardsParsed.payment = {
+      token: {
+        mint: guardsInput.freezeTokenPayment.mint,
+        symbol: guardsInput.freezeTokenPayment.amount.currency.symbol,
+        amount: guardsInput.freezeTokenPayment.amount.basisPoints.toNumber(),
+        decimals: guardsInput.freezeTokenPayment.amount.currency.decimals,
+      },
+    };
+    await updateTokenSymbolAndDecimalsFromChainAsync(
+      mx,
+      guardsParsed.payment.token
+    );
+    guardsParsed.freeze = {
+      destination: guardsInput.freezeTokenPayment.destinationAta,
+      mint: guardsInput.freezeTokenPayment.mint,
+    };
+  }
+
+  if (guardsParsed.freeze && umi)
+    await fetchFreezeEscrow(umi, candyMachine, guardsParsed.freeze.destination)
+      .then((escrow) => {
+        guardsParsed.freeze.escrow = escrow;
+      })
+      .catch(console.error);
+
   if (guardsInput.nftPayment) {
     guardsParsed.payment = {
       nfts: nftHoldings.filter((y) =>
@@ -308,23 +492,31 @@ export const parseGuardGroup = async (
 
   // Check for whitelisted addresses
 
-  if (guardsInput.addressGate || guardsInput.allowList) {
-    let allowed: PublicKey[] = [];
-    if (guardsInput.addressGate) allowed.push(guardsInput.addressGate.address);
+  if (guardsInput.addressGate)
+    guardsParsed.addressGate = guardsInput.addressGate.address;
 
-    if (guardsInput.allowList?.merkleRoot) {
-      const isValid = verifyProof(
-        guardsInput.allowList.merkleRoot,
-        label || "default"
-      );
-      if (isValid) allowed.push(walletAddress);
-    }
-
-    guardsParsed.allowed = allowed;
+  if (guardsInput.allowList?.merkleRoot) {
+    guardsParsed.allowList = guardsInput.allowList.merkleRoot;
+    guardsParsed.allowListed = verifyProof(
+      guardsInput.allowList.merkleRoot,
+      label || "default"
+    );
   }
 
   if (guardsInput.gatekeeper) {
     guardsParsed.gatekeeperNetwork = guardsInput.gatekeeper.network;
+    guardsParsed.gatekeeperExpireOnUse = guardsInput.gatekeeper.expireOnUse;
+  }
+
+  if (guardsInput.thirdPartySigner) {
+    guardsParsed.thirdPartySigner = guardsInput.thirdPartySigner.signerKey;
+  }
+
+  if (guardsInput.botTax) {
+    guardsParsed.botTax = {
+      lamports: guardsInput.botTax.lamports.basisPoints.toNumber(),
+      lastInstruction: guardsInput.botTax.lastInstruction,
+    };
   }
 
   return guardsParsed;
@@ -332,34 +524,68 @@ export const parseGuardGroup = async (
 
 export const parseGuardStates = ({
   guards,
-  candyMachine,
+  itemsMinted,
   walletAddress,
   tokenHoldings,
   balance,
+  now = Date.now(),
 }: {
   guards: GuardGroup;
-  candyMachine: CandyMachine;
+  itemsMinted: number;
   walletAddress: PublicKey;
   tokenHoldings: Token[];
   balance: number;
+  // Cluster time in ms, see `createClusterClock`
+  now?: number;
 }): GuardGroupStates => {
   const states: GuardGroupStates = {
     isStarted: true,
     isEnded: false,
     isLimitReached: false,
     canPayFor: 10,
-    messages: [],
+    eligibility: [],
     isWalletWhitelisted: true,
     hasGatekeeper: false,
   };
+  // `reason` tells why a check didn't pass
+  const check = (
+    result: Omit<GuardEligibility, "status" | "reason">,
+    status: GuardEligibility["status"],
+    reason: EligibilityReason
+  ) =>
+    states.eligibility.push({
+      ...result,
+      status,
+      reason: status === "pass" ? "eligible" : reason,
+    });
+  const passIf = (passed: boolean) => (passed ? "pass" : "fail");
+  const uiAmount = (amount: number, token: TokenPayment$Gate) =>
+    amount / 10 ** (token.decimals || 0);
+  // Only accounts of the program the guard moves count: Token-2022 for
+  // token2022Payment, SPL Token for every other token guard.
+  const tokenBalance = (token: TokenPayment$Gate) =>
+    tokenHoldings.find(
+      (x) =>
+        x.mint.equals(token.mint) &&
+        x.programId.equals(
+          token.token2022 ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID
+        )
+    )?.balance || 0;
+
   // if (guards.payment?.nfts?.length) debugger;
   // Check for start date
   if (guards.startTime) {
-    states.isStarted = guards.startTime.getTime() < Date.now();
+    states.isStarted = guards.startTime.getTime() < now;
+    check(
+      { guard: "startDate", resolution: "wait" },
+      passIf(states.isStarted),
+      "not-started"
+    );
   }
-  // Check for start date
+  // Check for end date
   if (guards.endTime) {
-    states.isEnded = guards.endTime.getTime() < Date.now();
+    states.isEnded = guards.endTime.getTime() < now;
+    check({ guard: "endDate" }, passIf(!states.isEnded), "ended");
   }
 
   // Check for mint limit
@@ -370,137 +596,314 @@ export const parseGuardStates = ({
           (guards.mintLimit?.mintCounter?.count || 0)
         : 10;
     states.isLimitReached = !canPayFor;
-    if (!canPayFor)
-      states.messages.push("Mint limit for each user has reached.");
+    check(
+      {
+        guard: "mintLimit",
+        required: 1,
+        available: Math.max(canPayFor, 0),
+        resolution: "switch-wallet",
+      },
+      passIf(!!canPayFor),
+      "mint-limit-reached"
+    );
     states.canPayFor = Math.min(states.canPayFor, canPayFor);
   }
 
+  // The freeze escrow has to exist before the guard accepts any mint
+  if (guards.freeze) {
+    const guard = guards.freeze.mint
+      ? "freezeTokenPayment"
+      : "freezeSolPayment";
+    if (guards.freeze.escrow === undefined)
+      check({ guard }, "unknown", "loading");
+    else
+      check(
+        { guard, resolution: "wait" },
+        passIf(guards.freeze.escrow !== null),
+        "escrow-not-initialized"
+      );
+    if (guards.freeze.escrow === null) states.canPayFor = 0;
+  }
+
+  // Check for allocation, shared by every wallet minting from the group
+  if (guards.allocation) {
+    const { limit, minted, initialized } = guards.allocation;
+    const remaining = Math.max(limit - minted, 0);
+    if (initialized === false) {
+      check(
+        { guard: "allocation", resolution: "wait" },
+        "fail",
+        "allocation-not-initialized"
+      );
+      states.canPayFor = 0;
+    } else {
+      states.isLimitReached = states.isLimitReached || !remaining;
+      check(
+        { guard: "allocation", required: 1, available: remaining },
+        passIf(!!remaining),
+        "allocation-minted-out"
+      );
+      states.canPayFor = Math.min(states.canPayFor, remaining);
+    }
+  }
+
   // Check for redeemed list
   if (typeof guards.redeemLimit == "number") {
-    let canPayFor = Math.max(
-      guards.redeemLimit - candyMachine.itemsMinted.toNumber(),
-      0
-    );
+    let canPayFor = Math.max(guards.redeemLimit - itemsMinted, 0);
     states.isLimitReached = !canPayFor;
-    if (!canPayFor) states.messages.push("Readeem limit has reached.");
+    check(
+      { guard: "redeemedAmount", required: 1, available: canPayFor },
+      passIf(!!canPayFor),
+      "redeemed-out"
+    );
     states.canPayFor = Math.min(states.canPayFor, canPayFor);
   }
 
   // Check for payment guards
   if (guards.payment?.sol) {
-    let canPayFor = Math.floor(
-      balance / (guards.payment?.sol.amount + 0.012 * LAMPORTS_PER_SOL)
+    const required = guards.payment?.sol.amount + 0.012 * LAMPORTS_PER_SOL;
+    let canPayFor = Math.floor(balance / required);
+    check(
+      {
+        guard:
+          guards.freeze && !guards.freeze.mint
+            ? "freezeSolPayment"
+            : "solPayment",
+        required: required / LAMPORTS_PER_SOL,
+        available: balance / LAMPORTS_PER_SOL,
+        unit: "SOL",
+        resolution: "add-sol",
+      },
+      passIf(!!canPayFor),
+      "insufficient-sol"
     );
-    if (!canPayFor) states.messages.push("Don't have enough sol to pay");
     states.canPayFor = Math.min(states.canPayFor, canPayFor);
   }
 
-  if (guards.payment?.token) {
-    const tokenAccount = tokenHoldings.find((x) =>
-      x.mint.equals(guards.payment?.token.mint)
-    );
-    let canPayFor = tokenAccount
-      ? Math.floor(tokenAccount.balance / guards.payment?.token.amount)
-      : 0;
-
-    if (!canPayFor)
-      states.messages.push(
-        `Don't have enough ${guards.payment?.token.symbol || "token"} to pay.`
-      );
+  const tokenPaymentGuard = (token: TokenPayment$Gate) =>
+    token.token2022
+      ? "token2022Payment"
+      : guards.freeze?.mint
+      ? "freezeTokenPayment"
+      : "tokenPayment";
+
+  // The token guards can't move Token-2022 tokens, see assertSplTokenGuards:
+  // the group can't be minted from, whatever the balance.
+  const isSupported = (token: TokenPayment$Gate, guard: EligibilityGuard) => {
+    if (!token.programId?.equals(TOKEN_2022_PROGRAM_ID) || token.token2022)
+      return true;
+    check({ guard, unit: token.symbol }, "fail", "token-2022-unsupported");
+    states.canPayFor = 0;
+    return false;
+  };
 
+  if (
+    guards.payment?.token &&
+    isSupported(guards.payment.token, tokenPaymentGuard(guards.payment.token))
+  ) {
+    const token = guards.payment.token;
+    let canPayFor = Math.floor(tokenBalance(token) / token.amount);
+    check(
+      {
+        guard: tokenPaymentGuard(token),
+        required: uiAmount(token.amount, token),
+        available: uiAmount(tokenBalance(token), token),
+        unit: token.symbol,
+        resolution: "get-tokens",
+      },
+      passIf(!!canPayFor),
+      "insufficient-tokens"
+    );
     states.canPayFor = Math.min(states.canPayFor, canPayFor);
   }
 
   if (guards.payment?.nfts) {
     let canPayFor = guards.payment?.nfts.length || 0;
-    if (!canPayFor) states.messages.push(`Don't have enough nfts to pay.`);
+    check(
+      {
+        guard: "nftPayment",
+        required: 1,
+        available: canPayFor,
+        resolution: "get-nfts",
+      },
+      passIf(!!canPayFor),
+      "insufficient-nfts"
+    );
     states.canPayFor = Math.min(states.canPayFor, canPayFor);
   }
 
   // Check for burn guards
-  if (guards.burn?.token) {
-    const tokenAccount = tokenHoldings.find((x) =>
-      x.mint.equals(guards.burn?.token.mint)
+  if (guards.burn?.token && isSupported(guards.burn.token, "tokenBurn")) {
+    const token = guards.burn.token;
+    let canPayFor = Math.floor(tokenBalance(token) / token.amount);
+    check(
+      {
+        guard: "tokenBurn",
+        required: uiAmount(token.amount, token),
+        available: uiAmount(tokenBalance(token), token),
+        unit: token.symbol,
+        resolution: "get-tokens",
+      },
+      passIf(!!canPayFor),
+      "insufficient-tokens"
     );
-    let canPayFor = tokenAccount
-      ? Math.floor(tokenAccount.balance / guards.burn?.token.amount)
-      : 0;
-
-    if (!canPayFor)
-      states.messages.push(
-        `Don't have enough ${guards.burn?.token.symbol || "token"} to burn.`
-      );
-
     states.canPayFor = Math.min(states.canPayFor, canPayFor);
   }
 
   if (guards.burn?.nfts) {
     let canPayFor = guards.burn?.nfts.length || 0;
-    if (!canPayFor) states.messages.push(`Don't have enough nfts to burn.`);
-
+    check(
+      {
+        guard: "nftBurn",
+        required: 1,
+        available: canPayFor,
+        resolution: "get-nfts",
+      },
+      passIf(!!canPayFor),
+      "insufficient-nfts"
+    );
     states.canPayFor = Math.min(states.canPayFor, canPayFor);
   }
 
   // Check for gates
-  if (guards.gate?.token) {
-    const tokenAccount = tokenHoldings.find((x) =>
-      x.mint.equals(guards.gate?.token.mint)
+  if (guards.gate?.token && isSupported(guards.gate.token, "tokenGate")) {
+    const token = guards.gate.token;
+    let canPayFor = tokenBalance(token) >= token.amount ? 10 : 0;
+    check(
+      {
+        guard: "tokenGate",
+        required: uiAmount(token.amount, token),
+        available: uiAmount(tokenBalance(token), token),
+        unit: token.symbol,
+        resolution: "get-tokens",
+      },
+      passIf(!!canPayFor),
+      "insufficient-tokens"
     );
-    let canPayFor =
-      tokenAccount && tokenAccount.balance > guards.gate?.token.amount ? 10 : 0;
-    if (!canPayFor)
-      states.messages.push(
-        `Don't have enough ${
-          guards.gate?.token.symbol || "token"
-        } to pass gate.`
-      );
     states.canPayFor = Math.min(states.canPayFor, canPayFor);
   }
 
   if (guards.gate?.nfts) {
-    let canPayFor = guards.burn?.nfts.length ? 10 : 0;
-    if (!canPayFor)
-      states.messages.push(`Don't have enough nfts to pass gate.`);
+    let canPayFor = guards.gate?.nfts.length ? 10 : 0;
+    check(
+      {
+        guard: "nftGate",
+        required: 1,
+        available: guards.gate.nfts.length,
+        resolution: "get-nfts",
+      },
+      passIf(!!canPayFor),
+      "insufficient-nfts"
+    );
     states.canPayFor = Math.min(states.canPayFor, canPayFor);
   }
 
-  // Check for whitelisted addresses
-  if (guards.allowed) {
-    states.isWalletWhitelisted = !!guards.allowed.find((x) =>
-      x.equals(walletAddress)
+  // Check for whitelisted addresses, each guard has to let the wallet in
+  if (guards.addressGate) {
+    const allowed = !!walletAddress?.equals(guards.addressGate);
+    states.isWalletWhitelisted = states.isWalletWhitelisted && allowed;
+    check(
+      { guard: "addressGate", resolution: "switch-wallet" },
+      passIf(allowed),
+      "not-allowed"
+    );
+  }
+  if (guards.allowList) {
+    states.isWalletWhitelisted =
+      states.isWalletWhitelisted && !!guards.allowListed;
+    check(
+      { guard: "allowList", resolution: "switch-wallet" },
+      passIf(!!guards.allowListed),
+      "not-allowed"
     );
-    if (!states.isWalletWhitelisted)
-      states.messages.push(`Not allowed to mint.`);
   }
 
+  // The pass is read by the gateway provider, not known here.
   if (guards.gatekeeperNetwork) {
     states.hasGatekeeper = true;
+    check(
+      { guard: "gatekeeper", resolution: "get-pass" },
+      "unknown",
+      "pass-required"
+    );
   }
 
   return states;
 };
-export const tokenSymbolCaches: {
-  [k: string]: Promise<void | SplTokenCurrency>;
-} = {};
+export type TokenInfo = {
+  decimals: number;
+  symbol?: string;
+  programId: PublicKey;
+};
+
+const tokenInfoCache = createTtlCache<TokenInfo>(10 * 60_000);
+
+/**
+ * Reads decimals and symbol of a mint from either token program. Token-2022
+ * mints carry their symbol in the token metadata extension.
+ */
+export const fetchTokenInfo = (mx: Metaplex, mint: PublicKey) =>
+  tokenInfoCache.get(mint.toString(), async () => {
+    const accountInfo = await mx.connection.getAccountInfo(mint);
+    if (!accountInfo) throw new Error(`Token mint ${mint} not found.`);
+    if (accountInfo.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+      const mintAccount = unpackMint(mint, accountInfo, TOKEN_2022_PROGRAM_ID);
+      const metadata = getExtensionData(
+        ExtensionType.TokenMetadata,
+        mintAccount.tlvData
+      );
+      return {
+        decimals: mintAccount.decimals,
+        symbol: metadata ? unpackTokenMetadata(metadata).symbol : undefined,
+        programId: TOKEN_2022_PROGRAM_ID,
+      };
+    }
+    const { currency } = await mx.tokens().findMintByAddress({ address: mint });
+    return {
+      decimals: currency.decimals,
+      symbol: currency.symbol,
+      programId: TOKEN_PROGRAM_ID,
+    };
+  });
 
 export const updateTokenSymbolAndDecimalsFromChainAsync = async (
   mx: Metaplex,
   token: TokenPayment$Gate
 ) => {
-  const chacheKey = token.mint.toString();
-  if (!tokenSymbolCaches[chacheKey]) {
-    tokenSymbolCaches[chacheKey] = mx
-      .tokens()
-      .findMintByAddress({ address: token.mint })
-      .then((mint) => mint.currency)
-      .catch(() => {
-        delete tokenSymbolCaches[chacheKey];
-      });
-  }
-  const res = await tokenSymbolCaches[chacheKey];
+  const res = await fetchTokenInfo(mx, token.mint).catch(() => null);
   if (res) {
     token.decimals = res.decimals;
-    token.symbol = res.symbol;
+    token.symbol = res.symbol || token.symbol;
+    token.programId = res.programId;
+  }
+};
+
+/**
+ * tokenPayment, tokenBurn and tokenGate only accept SPL Token accounts
+ * on-chain, so Token-2022 mints are rejected before anything is signed.
+ */
+export const assertSplTokenGuards = async (
+  mx: Metaplex,
+  guards: {
+    [k in "tokenPayment" | "tokenBurn" | "tokenGate"]?: { mint: PublicKey };
+  }
+) => {
+  const tokenGuards = {
+    tokenPayment: guards.tokenPayment,
+    tokenBurn: guards.tokenBurn,
+    tokenGate: guards.tokenGate,
+  };
+  for (const [name, guard] of Object.entries(tokenGuards)) {
+    if (!guard) continue;
+    const { programId, symbol } = await fetchTokenInfo(mx, guard.mint);
+    if (programId.equals(TOKEN_2022_PROGRAM_ID))
+      throw decodedError(`${name} does not support Token-2022 mints.`, {
+        source: "candyGuard",
+        guard: name,
+        messageKey: "errors.token2022Unsupported",
+        params: { token: symbol || guard.mint.toString(), guard: name },
+        retryable: false,
+      });
   }
 };
 
@@ -508,14 +911,20 @@ export const guardToLimitUtil = (
   guards: GuardGroup,
   defaultLimit: number = 10
 ): number =>
-  (guards.payment?.nfts
-    ? guards.payment.nfts.length
-    : guards.burn?.nfts
-    ? guards.burn.nfts.length
-    : guards.gate?.nfts
-    ? guards.gate.nfts.length
-    : guards.redeemLimit) ||
-  (guards.mintLimit?.settings?.limit
-    ? guards.mintLimit?.settings?.limit -
-      (guards.mintLimit?.mintCounter?.count || 0)
-    : defaultLimit);
+  Math.min(
+    (guards.payment?.nfts
+      ? guards.payment.nfts.length
+      : guards.burn?.nfts
+      ? guards.burn.nfts.length
+      : guards.gate?.nfts
+      ? guards.gate.nfts.length
+      : guards.redeemLimit) ||
+      (guards.mintLimit?.settings?.limit
+        ? guards.mintLimit?.settings?.limit -
+          (guards.mintLimit?.mintCounter?.count || 0)
+        : defaultLimit),
+    // What is left of the group allocation caps every wallet
+    guards.allocation
+      ? Math.max(guards.allocation.limit - guards.allocation.minted, 0)
+      : Infinity
+  );
@@ -0,0 +1,258 @@
+// Plural messages are picked with Intl.PluralRules from the `count` param.
+export type Message =
+  | string
+  | ({ other: string } & { [k in Intl.LDMLPluralRule]?: string });
+
+const en = {
+  amount: "{amount} {unit}",
+
+  // Home
+  "home.connectWallet": "Connect Wallet",
+  "home.mintIsPrivate": "Mint is private.",
+  "home.intro.welcome":
+    "Welcome to The Anarchists Collection: the official NFT collection of Anarchy on Solana!",
+  "home.intro.socials":
+    "Join our Telegram: AnarchySafeZone, and follow AnarchyOnSol on X!",
+  "home.intro.supply": "Total number of NFTs available - {total}:",
+  "home.intro.rarity": "-{count} {rarity}",
+  "home.intro.proceeds":
+    "40% of mint proceeds (0.16 SOL per mint) split: 0.10 SOL burns Anarchy tokens, 0.06 SOL boosts the community fund for development and ads.",
+  "home.intro.royalties":
+    "40% of 5% royalties (2% of each sale) split: 1.5% burns Anarchy, 0.5% supports the community fund.",
+  "home.intro.perpetual":
+    "This ensures that even long after the collection has been fully minted, the collection will perpetually burn Anarchy and contribute to the community fund, benefiting all Anarchy holders.",
+  "home.totalMinted": "Total Minted : {redeemed}/{available}",
+  "home.mintedByYou": "({count} by you)",
+  "home.mintedByYouOfLimit": "({count}/{limit} by you)",
+  "home.alert.notReady": "Wallet or Candy Machine not ready!",
+  "home.alert.notStarted": "Mint has not started yet!",
+  "home.alert.cannotPay": "Cannot pay for the mint!",
+  "home.alert.soldOut": "Sold out!",
+  "home.alert.captchaRequired": "Complete the captcha before minting.",
+  "home.alert.partialMint": {
+    one: "Only {minted} of {count} mint succeeded.",
+    other: "Only {minted} of {count} mints succeeded.",
+  },
+  "countdown.days": { one: "Day", other: "Days" },
+  "countdown.hours": { one: "Hour", other: "Hours" },
+  "countdown.minutes": { one: "Min", other: "Mins" },
+  "countdown.seconds": { one: "Sec", other: "Secs" },
+
+  // Mint buttons
+  "mint.connecting": "CONNECTING...",
+  "mint.soldOut": "SOLD OUT",
+  "mint.limitReached": "LIMIT REACHED",
+  "mint.verifyingAllowList": "VERIFYING ALLOWLIST...",
+  "mint.mint": "MINT",
+  "mint.ended": "ENDED",
+  "mint.unavailable": "UNAVAILABLE",
+  "mint.invalid.ended": "This phase has ended.",
+  "mint.invalid.notStarted": "This phase has not started yet.",
+  "mint.invalid.overLimit": "You can mint {limit} at most.",
+  "mint.invalid.endingSoon": "This phase ends in less than a minute.",
+  "mint.botTaxBlocked":
+    "Minting is blocked, it would fail and be charged a bot tax of {price}. {reason}",
+  "mint.totalCost": "Total estimated cost (Solana fees included): {cost}",
+  "mint.escrowNote":
+    "Payment is held in escrow and the NFTs stay frozen until thawed",
+  "mint.botTaxNote": "Invalid mints are charged a bot tax of {price}",
+  "mint.priorityFeeNote": "Includes a priority fee of {fee}",
+
+  // Mint progress
+  "progress.preparing": "Preparing transaction...",
+  "progress.awaiting-signature": "Waiting for wallet signature...",
+  "progress.sent": "Sent, waiting for confirmation...",
+  "progress.confirmed": "Confirmed",
+  "progress.fetched": "Minted!",
+  "progress.failed": "Failed",
+  "progress.tx": "tx",
+
+  // Minted NFTs
+  "nfts.title": {
+    one: "NFT you just minted!",
+    other: "NFTs you just minted!",
+  },
+  "nfts.close": "Close",
+  "nfts.viewOnSolscan": "View on solscan",
+  "nfts.programmable": "Programmable NFT",
+  "nfts.ruleSet": "Rule set: {address}",
+  "nfts.noRuleSet": "No transfer rules",
+  "nfts.frozen": "Frozen until thawed",
+  "nfts.state.unlocked": "Unlocked",
+  "nfts.state.locked": "Locked",
+  "nfts.state.listed": "Listed",
+
+  // Guard groups
+  "groups.price": "Price: {price}",
+  "groups.burn": "Burn: {price}",
+  "groups.hold": "Hold: {price}",
+  "groups.heldInEscrow": "{price} (held in escrow)",
+  "groups.botTax": "Bot tax: {price} on invalid mints",
+  "groups.frozen": "NFTs stay frozen until thawed",
+  "groups.frozenFrom": "(from {date})",
+  "groups.thawPage": "See the thaw page.",
+  "groups.starts": "Starts: {date}",
+  "groups.ends": "Ends: {date}",
+  "groups.loading": "Loading...",
+  "groups.ended": "Ended",
+  "groups.notStarted": "Not started",
+  "groups.notAllowed": "Not allowed to mint",
+  "groups.eligible": "Eligible",
+  "allocation.minted": "{minted} / {limit} minted in this phase",
+
+  // Eligibility checks, see src/hooks/eligibility.ts
+  "eligibility.eligible": "Eligible",
+  "eligibility.not-started": "This phase has not started yet.",
+  "eligibility.ended": "This phase has ended.",
+  "eligibility.mint-limit-reached":
+    "Mint limit for this wallet has been reached.",
+  "eligibility.escrow-not-initialized": "Freeze escrow is not initialized yet.",
+  "eligibility.allocation-not-initialized":
+    "Allocation for this group is not initialized yet.",
+  "eligibility.allocation-minted-out":
+    "Allocation for this group has been minted out.",
+  "eligibility.redeemed-out": "Redeem limit has been reached.",
+  "eligibility.insufficient-sol":
+    "Not enough SOL to pay: {required} needed, {available} available.",
+  "eligibility.insufficient-tokens.pay":
+    "Not enough {unit} to pay: {required} needed, {available} available.",
+  "eligibility.insufficient-tokens.burn":
+    "Not enough {unit} to burn: {required} needed, {available} available.",
+  "eligibility.insufficient-tokens.hold":
+    "Not enough {unit} to hold: {required} needed, {available} available.",
+  "eligibility.insufficient-nfts.pay":
+    "No NFT from the required collection to pay.",
+  "eligibility.insufficient-nfts.burn":
+    "No NFT from the required collection to burn.",
+  "eligibility.insufficient-nfts.hold":
+    "No NFT from the required collection to hold.",
+  "eligibility.token-2022-unsupported":
+    "{unit} is a Token-2022 mint, not supported by this guard.",
+  "eligibility.not-allowed": "This wallet is not allowed to mint.",
+  "eligibility.pass-required": "A gatekeeper pass is required.",
+  "eligibility.loading": "Loading...",
+  "eligibility.tokens": "tokens",
+  "eligibility.thisToken": "This token",
+  "resolution.wait": "Check back later.",
+  "resolution.add-sol": "Add SOL to this wallet.",
+  "resolution.get-tokens": "Get more of the token in this wallet.",
+  "resolution.get-nfts": "Get an NFT from the required collection.",
+  "resolution.switch-wallet": "Connect another wallet.",
+  "resolution.get-pass": "Request a pass from the gatekeeper.",
+
+  // Thaw page
+  "thaw.title": "Thaw",
+  "thaw.backToMint": "Back to mint",
+  "thaw.connectWallet": "Connect your wallet to see the frozen NFTs.",
+  "thaw.loading": "Loading...",
+  "thaw.notFrozen": "This candy machine doesn't freeze its NFTs.",
+  "thaw.escrowNotInitialized": "Freeze escrow is not initialized yet.",
+  "thaw.open": "Thawing is open to everyone.",
+  "thaw.opensAt": "Thawing opens {date} or when sold out.",
+  "thaw.opensAfterFreeze":
+    "Thawing opens after the freeze period, counted from the first mint.",
+  "thaw.frozenCount": "Frozen NFTs: {count}",
+  "thaw.unlockFunds": "Unlock funds",
+  "thaw.fundsUnlocked": "Escrowed funds unlocked!",
+  "thaw.thawed": "{name} thawed!",
+  "thaw.yourFrozenNfts": "Your frozen NFTs",
+  "thaw.noneFrozen": "None of your NFTs are frozen.",
+  "thaw.thawing": "Thawing...",
+  "thaw.thaw": "Thaw",
+
+  // NFT picker
+  "nftPicker.payment": "Pick the NFTs to pay with",
+  "nftPicker.burn": "Pick the NFTs to burn",
+  "nftPicker.gate": "Pick an NFT to pass the gate",
+  "nftPicker.cancel": "Cancel",
+  "nftPicker.next": "Next",
+  "nftPicker.mint": "Mint",
+
+  // Mint errors, see src/hooks/errors.ts
+  "errors.CandyMachineEmpty": "SOLD OUT!",
+  "errors.MintNotLive": "Mint has not started yet.",
+  "errors.AfterEndDate": "Mint has ended.",
+  "errors.InvalidMintTime": "Mint is not live at the moment.",
+  "errors.NotEnoughSOL": "Insufficient funds to mint. Please fund your wallet.",
+  "errors.NotEnoughTokens": "Not enough tokens to pay for the mint.",
+  "errors.MissingRequiredSignature":
+    "The mint was not approved by the co-signer.",
+  "errors.GatewayTokenInvalid": "Your gateway pass is missing or expired.",
+  "errors.AddressNotFoundInAllowedList": "Wallet is not on the allow list.",
+  "errors.MissingAllowedListProof": "Allow list proof was not verified yet.",
+  "errors.AllowedMintLimitReached": "Mint limit for each user has reached.",
+  "errors.InvalidNftCollection":
+    "The selected NFT is not from the required collection.",
+  "errors.MissingNft": "The selected NFT is no longer in your wallet.",
+  "errors.MaximumRedeemedAmount": "This phase is sold out.",
+  "errors.AddressNotAuthorized": "Wallet is not allowed to mint.",
+  "errors.UnauthorizedProgramFound":
+    "Your wallet added an instruction that is not allowed by this mint.",
+  "errors.AllocationLimitReached": "This phase is sold out.",
+  "errors.FreezeNotInitialized":
+    "The freeze escrow of this phase is not initialized yet.",
+  "errors.ThawNotEnabled":
+    "NFTs can't be thawed before the freeze period ends.",
+  "errors.UnlockNotEnabled": "Funds unlock once every NFT has been thawed.",
+  "errors.MintNotLastTransaction":
+    "The mint instruction must be the last in the transaction.",
+  "errors.WalletNotConnectedError": "Connect your wallet first.",
+  "errors.WalletNotReadyError":
+    "Wallet is not ready, is the extension installed?",
+  "errors.WalletDisconnectedError": "Wallet disconnected, please reconnect.",
+  "errors.WalletSignTransactionError":
+    "Transaction was not signed in your wallet.",
+  "errors.WalletSendTransactionError": "Wallet failed to send the transaction.",
+  "errors.WalletTimeoutError": "Wallet timed out, please try again.",
+  "errors.WalletWindowClosedError": "Wallet window was closed before signing.",
+  "errors.WalletWindowBlockedError":
+    "Wallet window was blocked by the browser.",
+  "errors.program": "{message}.",
+  "errors.programCode": "Program error {code}.",
+  "errors.rateLimited": "RPC rate limit exceeded, please try again.",
+  "errors.expired": "Transaction expired before it landed, please try again.",
+  "errors.network": "Network error, please check your connection.",
+  "errors.raw": "{message}",
+  "errors.unknown": "Minting failed! Please try again!",
+  "errors.insufficientLamports": "Not enough SOL to pay for the mint.",
+  "errors.selectNft.pay": "Select an NFT from the required collection to pay.",
+  "errors.selectNft.burn":
+    "Select an NFT from the required collection to burn.",
+  "errors.selectNft.gate":
+    "Select an NFT from the required collection to pass the gate.",
+  "errors.noCandyGuard": "The candy machine has no candy guard attached.",
+  "errors.groupNotFound": 'Guard group "{label}" not found.',
+  "errors.gatekeeperPass": "Gatekeeper pass is not active: {state}.",
+  "errors.gatekeeperPassStillActive":
+    "Spent gatekeeper pass still shows as active.",
+  "errors.captchaTimeout": "The captcha was not solved in time.",
+  "errors.token2022Unsupported":
+    "{token} is a Token-2022 mint, which the {guard} guard does not support.",
+  "errors.wouldFail": "Transaction would fail: {error}",
+  "errors.guardFailed": "A guard check failed.",
+  "errors.botTax": "Minting now would cost you a bot tax of {price}.",
+
+  // Gatekeeper
+  "gatekeeper.pass": "Gatekeeper pass ({network}):",
+  "gatekeeper.until": "until {date}",
+  "gatekeeper.expireOnUse":
+    "Each mint uses up the pass, a new one is requested before every mint.",
+  "gatekeeper.getPass": "Get pass",
+  "gatekeeper.requestNewPass": "Request a new pass",
+  "gatekeeper.state.checking": "Checking...",
+  "gatekeeper.state.not-requested": "Not requested",
+  "gatekeeper.state.in-review": "In review",
+  "gatekeeper.state.active": "Active",
+  "gatekeeper.state.expired": "Expired",
+  "gatekeeper.state.revoked": "Revoked",
+  "gatekeeper.state.frozen": "Frozen",
+  "gatekeeper.state.rejected": "Rejected",
+  "gatekeeper.state.error": "Could not be issued",
+
+  "language.label": "Language",
+};
+
+export type MessageKey = keyof typeof en;
+export type Catalog = { [k in MessageKey]: Message };
+
+export default en as Catalog;
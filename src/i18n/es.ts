@@ -0,0 +1,267 @@
+import { Catalog } from "./en";
+
+const es: Catalog = {
+  amount: "{amount} {unit}",
+
+  // Home
+  "home.connectWallet": "Conectar billetera",
+  "home.mintIsPrivate": "El minteo es privado.",
+  "home.intro.welcome":
+    "¡Bienvenido a The Anarchists Collection: la colección NFT oficial de Anarchy en Solana!",
+  "home.intro.socials":
+    "¡Únete a nuestro Telegram: AnarchySafeZone, y sigue a AnarchyOnSol en X!",
+  "home.intro.supply": "Número total de NFTs disponibles - {total}:",
+  "home.intro.rarity": "-{count} {rarity}",
+  "home.intro.proceeds":
+    "El 40% de lo recaudado en el minteo (0,16 SOL por minteo) se reparte: 0,10 SOL quema tokens Anarchy y 0,06 SOL refuerza el fondo comunitario para desarrollo y publicidad.",
+  "home.intro.royalties":
+    "El 40% del 5% de regalías (2% de cada venta) se reparte: 1,5% quema Anarchy y 0,5% apoya el fondo comunitario.",
+  "home.intro.perpetual":
+    "Así, incluso mucho después de mintear toda la colección, esta seguirá quemando Anarchy y aportando al fondo comunitario, en beneficio de todos los holders de Anarchy.",
+  "home.totalMinted": "Total minteado: {redeemed}/{available}",
+  "home.mintedByYou": "({count} por ti)",
+  "home.mintedByYouOfLimit": "({count}/{limit} por ti)",
+  "home.alert.notReady": "¡La billetera o la Candy Machine no están listas!",
+  "home.alert.notStarted": "¡El minteo aún no ha comenzado!",
+  "home.alert.cannotPay": "¡No puedes pagar el minteo!",
+  "home.alert.soldOut": "¡Agotado!",
+  "home.alert.captchaRequired": "Completa el captcha antes de mintear.",
+  "home.alert.partialMint": {
+    one: "Solo {minted} de {count} minteo tuvo éxito.",
+    other: "Solo {minted} de {count} minteos tuvieron éxito.",
+  },
+  "countdown.days": { one: "Día", other: "Días" },
+  "countdown.hours": { one: "Hora", other: "Horas" },
+  "countdown.minutes": { one: "Min", other: "Mins" },
+  "countdown.seconds": { one: "Seg", other: "Segs" },
+
+  // Mint buttons
+  "mint.connecting": "CONECTANDO...",
+  "mint.soldOut": "AGOTADO",
+  "mint.limitReached": "LÍMITE ALCANZADO",
+  "mint.verifyingAllowList": "VERIFICANDO LISTA...",
+  "mint.mint": "MINTEAR",
+  "mint.ended": "FINALIZADO",
+  "mint.unavailable": "NO DISPONIBLE",
+  "mint.invalid.ended": "Esta fase ha terminado.",
+  "mint.invalid.notStarted": "Esta fase aún no ha comenzado.",
+  "mint.invalid.overLimit": "Puedes mintear {limit} como máximo.",
+  "mint.invalid.endingSoon": "Esta fase termina en menos de un minuto.",
+  "mint.botTaxBlocked":
+    "El minteo está bloqueado, fallaría y se cobraría un bot tax de {price}. {reason}",
+  "mint.totalCost":
+    "Costo total estimado (comisiones de Solana incluidas): {cost}",
+  "mint.escrowNote":
+    "El pago queda en custodia y los NFTs permanecen congelados hasta descongelarlos",
+  "mint.botTaxNote": "Los minteos inválidos pagan un bot tax de {price}",
+  "mint.priorityFeeNote": "Incluye una comisión de prioridad de {fee}",
+
+  // Mint progress
+  "progress.preparing": "Preparando transacción...",
+  "progress.awaiting-signature": "Esperando la firma de la billetera...",
+  "progress.sent": "Enviada, esperando confirmación...",
+  "progress.confirmed": "Confirmada",
+  "progress.fetched": "¡Minteado!",
+  "progress.failed": "Fallida",
+  "progress.tx": "tx",
+
+  // Minted NFTs
+  "nfts.title": {
+    one: "¡NFT que acabas de mintear!",
+    other: "¡NFTs que acabas de mintear!",
+  },
+  "nfts.close": "Cerrar",
+  "nfts.viewOnSolscan": "Ver en solscan",
+  "nfts.programmable": "NFT programable",
+  "nfts.ruleSet": "Reglas: {address}",
+  "nfts.noRuleSet": "Sin reglas de transferencia",
+  "nfts.frozen": "Congelado hasta descongelarlo",
+  "nfts.state.unlocked": "Desbloqueado",
+  "nfts.state.locked": "Bloqueado",
+  "nfts.state.listed": "Listado",
+
+  // Guard groups
+  "groups.price": "Precio: {price}",
+  "groups.burn": "Quema: {price}",
+  "groups.hold": "Tener: {price}",
+  "groups.heldInEscrow": "{price} (en custodia)",
+  "groups.botTax": "Bot tax: {price} en minteos inválidos",
+  "groups.frozen": "Los NFTs permanecen congelados hasta descongelarlos",
+  "groups.frozenFrom": "(desde {date})",
+  "groups.thawPage": "Ver la página de descongelado.",
+  "groups.starts": "Comienza: {date}",
+  "groups.ends": "Termina: {date}",
+  "groups.loading": "Cargando...",
+  "groups.ended": "Finalizado",
+  "groups.notStarted": "No ha comenzado",
+  "groups.notAllowed": "No tienes permiso para mintear",
+  "groups.eligible": "Elegible",
+  "allocation.minted": "{minted} / {limit} minteados en esta fase",
+
+  // Eligibility checks, see src/hooks/eligibility.ts
+  "eligibility.eligible": "Elegible",
+  "eligibility.not-started": "Esta fase aún no ha comenzado.",
+  "eligibility.ended": "Esta fase ha terminado.",
+  "eligibility.mint-limit-reached":
+    "Esta billetera alcanzó el límite de minteo.",
+  "eligibility.escrow-not-initialized":
+    "La custodia de congelado aún no está inicializada.",
+  "eligibility.allocation-not-initialized":
+    "La asignación de este grupo aún no está inicializada.",
+  "eligibility.allocation-minted-out":
+    "La asignación de este grupo se ha agotado.",
+  "eligibility.redeemed-out": "Se alcanzó el límite de canjes.",
+  "eligibility.insufficient-sol":
+    "No tienes suficiente SOL para pagar: se necesitan {required}, tienes {available}.",
+  "eligibility.insufficient-tokens.pay":
+    "No tienes suficiente {unit} para pagar: se necesitan {required}, tienes {available}.",
+  "eligibility.insufficient-tokens.burn":
+    "No tienes suficiente {unit} para quemar: se necesitan {required}, tienes {available}.",
+  "eligibility.insufficient-tokens.hold":
+    "No tienes suficiente {unit}: se necesitan {required}, tienes {available}.",
+  "eligibility.insufficient-nfts.pay":
+    "No tienes un NFT de la colección requerida para pagar.",
+  "eligibility.insufficient-nfts.burn":
+    "No tienes un NFT de la colección requerida para quemar.",
+  "eligibility.insufficient-nfts.hold":
+    "No tienes un NFT de la colección requerida.",
+  "eligibility.token-2022-unsupported":
+    "{unit} es un mint Token-2022, este guard no lo admite.",
+  "eligibility.not-allowed": "Esta billetera no tiene permiso para mintear.",
+  "eligibility.pass-required": "Se requiere un pase del gatekeeper.",
+  "eligibility.loading": "Cargando...",
+  "eligibility.tokens": "tokens",
+  "eligibility.thisToken": "Este token",
+  "resolution.wait": "Vuelve más tarde.",
+  "resolution.add-sol": "Añade SOL a esta billetera.",
+  "resolution.get-tokens": "Consigue más de este token en esta billetera.",
+  "resolution.get-nfts": "Consigue un NFT de la colección requerida.",
+  "resolution.switch-wallet": "Conecta otra billetera.",
+  "resolution.get-pass": "Solicita un pase al gatekeeper.",
+
+  // Thaw page
+  "thaw.title": "Descongelar",
+  "thaw.backToMint": "Volver al minteo",
+  "thaw.connectWallet": "Conecta tu billetera para ver los NFTs congelados.",
+  "thaw.loading": "Cargando...",
+  "thaw.notFrozen": "Esta candy machine no congela sus NFTs.",
+  "thaw.escrowNotInitialized":
+    "La custodia de congelado aún no está inicializada.",
+  "thaw.open": "El descongelado está abierto a todos.",
+  "thaw.opensAt": "El descongelado abre el {date} o al agotarse.",
+  "thaw.opensAfterFreeze":
+    "El descongelado abre tras el periodo de congelado, contado desde el primer minteo.",
+  "thaw.frozenCount": "NFTs congelados: {count}",
+  "thaw.unlockFunds": "Liberar fondos",
+  "thaw.fundsUnlocked": "¡Fondos en custodia liberados!",
+  "thaw.thawed": "¡{name} descongelado!",
+  "thaw.yourFrozenNfts": "Tus NFTs congelados",
+  "thaw.noneFrozen": "Ninguno de tus NFTs está congelado.",
+  "thaw.thawing": "Descongelando...",
+  "thaw.thaw": "Descongelar",
+
+  // NFT picker
+  "nftPicker.payment": "Elige los NFTs con los que pagar",
+  "nftPicker.burn": "Elige los NFTs a quemar",
+  "nftPicker.gate": "Elige un NFT para pasar el gate",
+  "nftPicker.cancel": "Cancelar",
+  "nftPicker.next": "Siguiente",
+  "nftPicker.mint": "Mintear",
+
+  // Mint errors, see src/hooks/errors.ts
+  "errors.CandyMachineEmpty": "¡AGOTADO!",
+  "errors.MintNotLive": "El minteo aún no ha comenzado.",
+  "errors.AfterEndDate": "El minteo ha terminado.",
+  "errors.InvalidMintTime": "El minteo no está activo en este momento.",
+  "errors.NotEnoughSOL":
+    "Fondos insuficientes para mintear. Añade fondos a tu billetera.",
+  "errors.NotEnoughTokens":
+    "No tienes suficientes tokens para pagar el minteo.",
+  "errors.MissingRequiredSignature": "El co-firmante no aprobó el minteo.",
+  "errors.GatewayTokenInvalid": "Tu pase del gatekeeper falta o ha caducado.",
+  "errors.AddressNotFoundInAllowedList":
+    "La billetera no está en la lista de permitidos.",
+  "errors.MissingAllowedListProof":
+    "La prueba de la lista de permitidos aún no se verificó.",
+  "errors.AllowedMintLimitReached":
+    "Se alcanzó el límite de minteo por usuario.",
+  "errors.InvalidNftCollection":
+    "El NFT seleccionado no es de la colección requerida.",
+  "errors.MissingNft": "El NFT seleccionado ya no está en tu billetera.",
+  "errors.MaximumRedeemedAmount": "Esta fase está agotada.",
+  "errors.AddressNotAuthorized": "La billetera no tiene permiso para mintear.",
+  "errors.UnauthorizedProgramFound":
+    "Tu billetera añadió una instrucción que este minteo no permite.",
+  "errors.AllocationLimitReached": "Esta fase está agotada.",
+  "errors.FreezeNotInitialized":
+    "La custodia de congelado de esta fase aún no está inicializada.",
+  "errors.ThawNotEnabled":
+    "Los NFTs no se pueden descongelar antes de que termine el periodo de congelado.",
+  "errors.UnlockNotEnabled":
+    "Los fondos se liberan cuando todos los NFTs se han descongelado.",
+  "errors.MintNotLastTransaction":
+    "La instrucción de minteo debe ser la última de la transacción.",
+  "errors.WalletNotConnectedError": "Conecta tu billetera primero.",
+  "errors.WalletNotReadyError":
+    "La billetera no está lista, ¿está instalada la extensión?",
+  "errors.WalletDisconnectedError":
+    "Billetera desconectada, vuelve a conectarla.",
+  "errors.WalletSignTransactionError":
+    "La transacción no se firmó en tu billetera.",
+  "errors.WalletSendTransactionError":
+    "La billetera no pudo enviar la transacción.",
+  "errors.WalletTimeoutError":
+    "La billetera agotó el tiempo de espera, inténtalo de nuevo.",
+  "errors.WalletWindowClosedError":
+    "La ventana de la billetera se cerró antes de firmar.",
+  "errors.WalletWindowBlockedError":
+    "El navegador bloqueó la ventana de la billetera.",
+  "errors.program": "{message}.",
+  "errors.programCode": "Error del programa {code}.",
+  "errors.rateLimited":
+    "Se superó el límite de peticiones del RPC, inténtalo de nuevo.",
+  "errors.expired":
+    "La transacción caducó antes de confirmarse, inténtalo de nuevo.",
+  "errors.network": "Error de red, revisa tu conexión.",
+  "errors.raw": "{message}",
+  "errors.unknown": "¡El minteo falló! ¡Inténtalo de nuevo!",
+  "errors.insufficientLamports":
+    "No tienes suficiente SOL para pagar el minteo.",
+  "errors.selectNft.pay": "Elige un NFT de la colección requerida para pagar.",
+  "errors.selectNft.burn":
+    "Elige un NFT de la colección requerida para quemar.",
+  "errors.selectNft.gate":
+    "Elige un NFT de la colección requerida para pasar el gate.",
+  "errors.noCandyGuard": "La candy machine no tiene un candy guard.",
+  "errors.groupNotFound": 'No se encontró el grupo "{label}".',
+  "errors.gatekeeperPass": "El pase del gatekeeper no está activo: {state}.",
+  "errors.gatekeeperPassStillActive":
+    "El pase del gatekeeper usado aún aparece como activo.",
+  "errors.captchaTimeout": "El captcha no se resolvió a tiempo.",
+  "errors.token2022Unsupported":
+    "{token} es un mint Token-2022, el guard {guard} no lo admite.",
+  "errors.wouldFail": "La transacción fallaría: {error}",
+  "errors.guardFailed": "Falló una comprobación de un guard.",
+  "errors.botTax": "Mintear ahora te costaría un bot tax de {price}.",
+
+  // Gatekeeper
+  "gatekeeper.pass": "Pase del gatekeeper ({network}):",
+  "gatekeeper.until": "hasta {date}",
+  "gatekeeper.expireOnUse":
+    "Cada minteo consume el pase, se solicita uno nuevo antes de cada minteo.",
+  "gatekeeper.getPass": "Obtener pase",
+  "gatekeeper.requestNewPass": "Solicitar un pase nuevo",
+  "gatekeeper.state.checking": "Comprobando...",
+  "gatekeeper.state.not-requested": "No solicitado",
+  "gatekeeper.state.in-review": "En revisión",
+  "gatekeeper.state.active": "Activo",
+  "gatekeeper.state.expired": "Caducado",
+  "gatekeeper.state.revoked": "Revocado",
+  "gatekeeper.state.frozen": "Congelado",
+  "gatekeeper.state.rejected": "Rechazado",
+  "gatekeeper.state.error": "No se pudo emitir",
+
+  "language.label": "Idioma",
+};
+
+export default es;
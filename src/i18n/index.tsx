@@ -0,0 +1,119 @@
+import React from "react";
+import { defaultLocale } from "../config";
+import en, { Catalog, Message, MessageKey } from "./en";
+import es from "./es";
+
+export type { MessageKey } from "./en";
+
+export const catalogs: { [locale: string]: Catalog } = { en, es };
+
+// Shown in the language switcher, in their own language
+export const localeNames: { [locale: string]: string } = {
+  en: "English",
+  es: "Español",
+};
+
+export type MessageParams = { [k: string]: string | number | undefined };
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const storageKey = "locale";
+
+const supportedLocale = (locale?: string | null) => {
+  if (!locale) return undefined;
+  if (catalogs[locale]) return locale;
+  const language = locale.split("-")[0];
+  return catalogs[language] ? language : undefined;
+};
+
+/**
+ * Locale picked in the switcher earlier, else the first browser language
+ * with a catalog, else `defaultLocale`. Server renders use the default.
+ */
+export const detectLocale = (): string => {
+  if (typeof window === "undefined")
+    return supportedLocale(defaultLocale) || "en";
+  const stored = supportedLocale(window.localStorage.getItem(storageKey));
+  if (stored) return stored;
+  const browser = (navigator.languages || [navigator.language])
+    .map(supportedLocale)
+    .find(Boolean);
+  return browser || supportedLocale(defaultLocale) || "en";
+};
+
+const interpolate = (text: string, params: MessageParams = {}) =>
+  text.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] === undefined ? match : String(params[name])
+  );
+
+/**
+ * Translator for `locale`: messages missing from its catalog fall back to
+ * English, plural messages are picked by the `count` param, numeric params
+ * are formatted for the locale.
+ */
+export const createTranslator = (locale: string) => {
+  const catalog = catalogs[locale] || en;
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale, { maximumFractionDigits: 6 });
+  const dates = new Intl.DateTimeFormat(locale, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+  const formatNumber = (value: number) => numbers.format(value);
+
+  const t: Translate = (key, params = {}) => {
+    const message: Message = catalog[key] ?? en[key];
+    const text =
+      typeof message === "string"
+        ? message
+        : message[plurals.select(Number(params.count ?? 0))] ?? message.other;
+    const formatted: MessageParams = {};
+    Object.entries(params).forEach(([name, value]) => {
+      formatted[name] = typeof value === "number" ? formatNumber(value) : value;
+    });
+    return interpolate(text, formatted);
+  };
+
+  return {
+    locale,
+    t,
+    formatNumber,
+    // Prices and balances, `unit` being SOL or a token symbol
+    formatAmount: (amount: number, unit: string) =>
+      t("amount", { amount, unit }),
+    formatDate: (date: Date) => dates.format(date),
+  };
+};
+
+export type I18n = ReturnType<typeof createTranslator> & {
+  setLocale: (locale: string) => void;
+};
+
+const I18nContext = React.createContext<I18n>({
+  ...createTranslator("en"),
+  setLocale: () => {},
+});
+
+export const I18nProvider = ({ children }: { children: React.ReactNode }) => {
+  // Detected after mounting so the first render matches the server's.
+  const [locale, setLocaleState] = React.useState(
+    supportedLocale(defaultLocale) || "en"
+  );
+  React.useEffect(() => setLocaleState(detectLocale()), []);
+  React.useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = React.useCallback((next: string) => {
+    window.localStorage.setItem(storageKey, next);
+    setLocaleState(next);
+  }, []);
+
+  const value = React.useMemo(
+    () => ({ ...createTranslator(locale), setLocale }),
+    [locale, setLocale]
+  );
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => React.useContext(I18nContext);
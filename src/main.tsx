@@ -14,7 +14,10 @@ import {
 import { useMemo } from "react";
 
 import Home from "./Home";
-import { rpcHost, candyMachineId, network } from "./config";
+import Thaw from "./Thaw";
+import { rpcHosts, candyMachineId, network } from "./config";
+import { createRpcPool } from "./helpers";
+import { I18nProvider } from "./i18n";
 
 const theme = createTheme({
   palette: {
@@ -41,9 +44,18 @@ const theme = createTheme({
   },
 });
 
-const Main = ({}) => {
-  // Custom RPC endpoint.
-  const endpoint = useMemo(() => rpcHost, []);
+const Main = ({ page = "mint" }: { page?: "mint" | "thaw" }) => {
+  // Custom RPC endpoints, failing over in order on rate limits and errors.
+  const rpcPool = useMemo(() => createRpcPool(rpcHosts), []);
+  const connectionConfig = useMemo(
+    () => ({
+      commitment: "confirmed" as const,
+      fetch: rpcPool.fetch,
+      // Rate limits are handled by the pool.
+      disableRetryOnRateLimit: true,
+    }),
+    [rpcPool]
+  );
 
   // @solana/wallet-adapter-wallets includes all the adapters but supports tree shaking and lazy loading --
   // Only the wallets you configure here will be compiled into your application, and only the dependencies
@@ -61,15 +73,24 @@ const Main = ({}) => {
 
   return (
     <ThemeProvider theme={theme}>
-      <ConnectionProvider endpoint={endpoint}>
-        <WalletProvider wallets={wallets} autoConnect={true}>
-          <WalletModalProvider>
-            <Home candyMachineId={candyMachineId} />
-          </WalletModalProvider>
-        </WalletProvider>
-      </ConnectionProvider>
+      <I18nProvider>
+        <ConnectionProvider
+          endpoint={rpcPool.endpoint}
+          config={connectionConfig}
+        >
+          <WalletProvider wallets={wallets} autoConnect={true}>
+            <WalletModalProvider>
+              {page === "thaw" ? (
+                <Thaw candyMachineId={candyMachineId} />
+              ) : (
+                <Home candyMachineId={candyMachineId} />
+              )}
+            </WalletModalProvider>
+          </WalletProvider>
+        </ConnectionProvider>
+      </I18nProvider>
     </ThemeProvider>
   );
 };
 
-export default Main;
\ No newline at end of file
+export default Main;